@@ -1,22 +1,70 @@
+import React, { useState } from 'react';
+import GameEngine, { TestLevel } from './components/GameEngine';
+import LevelEditor from './components/LevelEditor';
+import { Options, loadOptions, saveOptions } from './components/options';
 
-import React from 'react';
-import GameEngine from './components/GameEngine';
+type Mode = 'game' | 'editor';
 
 const App: React.FC = () => {
+  const [mode, setMode] = useState<Mode>('game');
+  // Set while the editor's level is being test-played
+  const [testLevel, setTestLevel] = useState<TestLevel | null>(null);
+  const [editorLevel, setEditorLevel] = useState<TestLevel | undefined>(undefined);
+  const [options, setOptions] = useState<Options>(loadOptions);
+
+  const changeOptions = (next: Options) => {
+    saveOptions(next);
+    setOptions(next);
+  };
+
+  const switchMode = (next: Mode) => {
+    setTestLevel(null);
+    setMode(next);
+  };
+
+  const tabClass = (m: Mode) =>
+    `px-2 py-1 border ${mode === m ? 'border-[#f83800] text-white' : 'border-[#333] text-gray-500'}`;
+
   return (
     <div className="w-screen h-screen bg-black flex items-center justify-center overflow-hidden relative">
-      <div className="scanlines"></div>
-      
+      {options.scanlines && <div className="scanlines"></div>}
+
+      <div className="absolute top-2 left-2 flex gap-1 font-mono text-xs z-10">
+        <button className={tabClass('game')} onClick={() => switchMode('game')}>GAME</button>
+        <button className={tabClass('editor')} onClick={() => switchMode('editor')}>EDITOR</button>
+      </div>
+
       {/* Game Container with fixed Aspect Ratio */}
       <div className="relative border-4 border-[#333] shadow-2xl bg-black">
-         <GameEngine 
-            onGameOver={() => console.log("Game Over")} 
-            onExit={() => console.log("Exit")} 
-         />
+         {mode === 'game' && (
+           <GameEngine
+              onGameOver={() => console.log("Game Over")}
+              onExit={() => console.log("Exit")}
+              options={options}
+              onOptionsChange={changeOptions}
+           />
+         )}
+         {mode === 'editor' && testLevel && (
+           <GameEngine
+              testLevel={testLevel}
+              onGameOver={() => console.log("Game Over")}
+              onExit={() => setTestLevel(null)}
+              options={options}
+              onOptionsChange={changeOptions}
+           />
+         )}
+         {mode === 'editor' && !testLevel && (
+           <LevelEditor
+              initial={editorLevel}
+              onPlay={test => { setEditorLevel(test); setTestLevel(test); }}
+           />
+         )}
       </div>
 
       <div className="absolute bottom-4 text-gray-500 text-xs text-center font-mono">
-        WASD: Move • SPACE: Jump • L-CLICK: Fire • R-CLICK: Super Weapon • R: Reset
+        {mode === 'game'
+          ? 'WASD: Move • SPACE: Jump • L-CLICK: Fire • R-CLICK: Super Bomb • ESC/P: Pause • F2: Save Replay • 2 on title: Two players (Arrows . , /) • C on title: Controls'
+          : 'EDITOR: Click to place • Drag to move • Arrows/Wheel: Scroll • Del: Remove • ESC in test play: Menu'}
       </div>
     </div>
   );
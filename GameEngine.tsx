@@ -1,6 +1,7 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import { EntityType, GameObject, GameState, InputState, Vector2, WeaponType } from '../types';
 import { CANVAS_WIDTH, CANVAS_HEIGHT, GRAVITY, PLAYER_SPEED, JUMP_FORCE, BULLET_SPEED, ENEMY_SPEED, SPAWN_RATE, COLORS, SIZES } from '../constants';
+import { createRng, random, randomSeed } from './engine/rng';
 
 interface GameEngineProps {
   onGameOver: (score: number) => void;
@@ -128,7 +129,9 @@ const GameEngine: React.FC<GameEngineProps> = ({ onGameOver }) => {
   }, []);
 
   // Level Generation (Jungle Theme)
-  const generateLevel = useCallback(() => {
+  // Chunks come from a seeded PRNG so the same seed always builds the same level.
+  const generateLevel = useCallback((seed: number = randomSeed()) => {
+    const rng = createRng(seed);
     const ents: GameObject[] = [];
     const floorY = CANVAS_HEIGHT - 60;
     
@@ -150,9 +153,9 @@ const GameEngine: React.FC<GameEngineProps> = ({ onGameOver }) => {
     // Chunk generation
     for (let i = 0; i < 60; i++) {
       const isBridge = i > 12 && i < 18; 
-      const isGap = !isBridge && Math.random() > 0.85;
-      const heightLevel = (!isBridge && Math.random() > 0.65) ? 100 : 0; 
-      const width = isBridge ? 64 : 128 + Math.random() * 200;
+      const isGap = !isBridge && random(rng) > 0.85;
+      const heightLevel = (!isBridge && random(rng) > 0.65) ? 100 : 0; 
+      const width = isBridge ? 64 : 128 + random(rng) * 200;
       
       if (!isGap) {
         // Ground
@@ -170,7 +173,7 @@ const GameEngine: React.FC<GameEngineProps> = ({ onGameOver }) => {
         });
 
         // Turrets
-        if (!isBridge && Math.random() > 0.6 && i > 3) {
+        if (!isBridge && random(rng) > 0.6 && i > 3) {
           ents.push({
             id: `turret-${i}`,
             type: EntityType.ENEMY_TURRET,
@@ -185,7 +188,7 @@ const GameEngine: React.FC<GameEngineProps> = ({ onGameOver }) => {
         }
       } else {
         // Floating platform in gap
-        if (Math.random() > 0.3) {
+        if (random(rng) > 0.3) {
            ents.push({
             id: `plat-float-${i}`,
             type: EntityType.PLATFORM,
@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { ACTIONS, ACTION_LABELS, Action, Bindings, defaultBindings, keyLabel, mouseCode, padLabel, readGamepads } from './input';
+import { Volumes } from './audio';
+
+interface ControlsScreenProps {
+  bindings: Bindings;
+  onChange: (bindings: Bindings) => void;
+  volumes: Volumes;
+  onVolumesChange: (volumes: Volumes) => void;
+  onClose: () => void;
+}
+
+// Columns: player 1 keys, player 2 keys, gamepad buttons.
+type Column = 0 | 1 | 'pad';
+const COLUMNS: { id: Column; label: string }[] = [
+  { id: 0, label: 'P1 KEYS' },
+  { id: 1, label: 'P2 KEYS' },
+  { id: 'pad', label: 'GAMEPAD' }
+];
+
+const VOLUME_SLIDERS: { key: keyof Volumes; label: string }[] = [
+  { key: 'master', label: 'MASTER' },
+  { key: 'music', label: 'MUSIC' },
+  { key: 'sfx', label: 'SFX' }
+];
+
+interface Cell {
+  row: number; // Index into ACTIONS
+  col: number; // Index into COLUMNS
+}
+
+// Adds `value` to one action and takes it off every other action of the same
+// layout, so one button never does two things.
+const bind = <T,>(layout: Record<Action, T[]>, action: Action, value: T): Record<Action, T[]> => {
+  const next = { ...layout };
+  ACTIONS.forEach(a => { next[a] = layout[a].filter(v => v !== value); });
+  next[action] = [...next[action], value];
+  return next;
+};
+
+// Rebinding screen. Arrows move, Enter (or a click) listens for the new key,
+// mouse button or pad button; Delete clears the cell, Esc leaves.
+const ControlsScreen: React.FC<ControlsScreenProps> = ({ bindings, onChange, volumes, onVolumesChange, onClose }) => {
+  const [cursor, setCursor] = useState<Cell>({ row: 0, col: 0 });
+  const [listening, setListening] = useState(false);
+
+  const column = COLUMNS[cursor.col].id;
+  const action = ACTIONS[cursor.row];
+
+  const assign = (value: string | number | null) => {
+    const next: Bindings = { ...bindings, keys: [...bindings.keys] };
+    if (column === 'pad') {
+      next.pad = value === null ? { ...bindings.pad, [action]: [] } : bind(bindings.pad, action, value as number);
+    } else {
+      const layout = bindings.keys[column];
+      next.keys[column] = value === null ? { ...layout, [action]: [] } : bind(layout, action, value as string);
+    }
+    onChange(next);
+    setListening(false);
+  };
+
+  // Keyboard: navigation, or the key to bind
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (listening) {
+        if (e.code === 'Escape') setListening(false);
+        else if (e.code === 'Delete' || e.code === 'Backspace') assign(null);
+        else if (column !== 'pad') assign(e.code);
+        return;
+      }
+      switch (e.code) {
+        case 'ArrowUp': setCursor(c => ({ ...c, row: (c.row + ACTIONS.length - 1) % ACTIONS.length })); break;
+        case 'ArrowDown': setCursor(c => ({ ...c, row: (c.row + 1) % ACTIONS.length })); break;
+        case 'ArrowLeft': setCursor(c => ({ ...c, col: (c.col + COLUMNS.length - 1) % COLUMNS.length })); break;
+        case 'ArrowRight': setCursor(c => ({ ...c, col: (c.col + 1) % COLUMNS.length })); break;
+        case 'Enter': case 'Space': setListening(true); break;
+        case 'Delete': case 'Backspace': assign(null); break;
+        case 'Escape': onClose(); break;
+      }
+    };
+    // Capture phase, so the game underneath never sees these keys
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  });
+
+  // Mouse buttons bind to keyboard columns
+  useEffect(() => {
+    if (!listening || column === 'pad') return;
+    const handleMouseDown = (e: MouseEvent) => {
+      e.preventDefault();
+      assign(mouseCode(e.button));
+    };
+    // Wait for the click that started listening to finish
+    const timer = window.setTimeout(() => window.addEventListener('mousedown', handleMouseDown), 0);
+    return () => {
+      window.clearTimeout(timer);
+      window.removeEventListener('mousedown', handleMouseDown);
+    };
+  });
+
+  // Gamepad buttons: poll until a button that wasn't already down is pressed
+  useEffect(() => {
+    if (!listening || column !== 'pad') return;
+    const down = (pad: Gamepad | null) => pad ? pad.buttons.map(b => b.pressed) : [];
+    const before = readGamepads().map(down);
+    let frame = requestAnimationFrame(function poll() {
+      const pads = readGamepads();
+      for (let p = 0; p < pads.length; p++) {
+        const pressed = down(pads[p]).findIndex((isDown, b) => isDown && !before[p]?.[b]);
+        if (pressed >= 0) {
+          assign(pressed);
+          return;
+        }
+      }
+      frame = requestAnimationFrame(poll);
+    });
+    return () => cancelAnimationFrame(frame);
+  });
+
+  const cellText = (row: number, col: number) => {
+    const id = COLUMNS[col].id;
+    const a = ACTIONS[row];
+    const labels = id === 'pad' ? bindings.pad[a].map(padLabel) : bindings.keys[id][a].map(keyLabel);
+    return labels.join(' ') || '-';
+  };
+
+  return (
+    <div className="absolute inset-0 bg-black/90 flex flex-col items-center justify-center gap-3 font-mono text-xs text-gray-300 z-20" onContextMenu={e => e.preventDefault()}>
+      <div className="text-white text-base">CONTROLS</div>
+      <table className="border-collapse">
+        <thead>
+          <tr>
+            <th></th>
+            {COLUMNS.map(c => <th key={c.label} className="px-2 py-1 text-[#f8b800]">{c.label}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {ACTIONS.map((a, row) => (
+            <tr key={a}>
+              <td className="pr-3 text-right">{ACTION_LABELS[a]}</td>
+              {COLUMNS.map((c, col) => {
+                const selected = cursor.row === row && cursor.col === col;
+                return (
+                  <td key={c.label} className="p-0.5">
+                    <button
+                      className={`w-36 px-2 py-1 border text-left ${selected ? 'border-[#f83800] text-white' : 'border-[#444] bg-[#222]'}`}
+                      onClick={() => { setCursor({ row, col }); setListening(true); }}
+                    >
+                      {selected && listening ? (c.id === 'pad' ? 'PRESS A BUTTON' : 'PRESS A KEY') : cellText(row, col)}
+                    </button>
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="text-gray-500">ARROWS: Select • ENTER: Bind • DEL: Clear • ESC: Back</div>
+      <div className="text-white text-base mt-2">SOUND</div>
+      <div className="flex gap-4">
+        {VOLUME_SLIDERS.map(({ key, label }) => (
+          <label key={key} className="flex items-center gap-2">
+            {label}
+            <input
+              type="range" min={0} max={100} className="w-24 accent-[#f83800]"
+              value={Math.round(volumes[key] * 100)}
+              onChange={e => onVolumesChange({ ...volumes, [key]: Number(e.target.value) / 100 })}
+            />
+          </label>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <button
+          className="bg-[#222] border border-[#444] px-2 py-1"
+          onClick={() => onChange({ ...bindings, touch: { leftHanded: !bindings.touch.leftHanded } })}
+        >
+          Touch layout: {bindings.touch.leftHanded ? 'Left-handed' : 'Right-handed'}
+        </button>
+        <button className="bg-[#222] border border-[#444] px-2 py-1" onClick={() => onChange(defaultBindings())}>Reset defaults</button>
+        <button className="bg-[#f83800] text-white px-3 py-1" onClick={onClose}>Done</button>
+      </div>
+    </div>
+  );
+};
+
+export default ControlsScreen;
@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { MenuButton, readMenuButtons } from './input';
+import { INITIALS_LENGTH } from './highScores';
+
+interface InitialsEntryProps {
+  title: string; // e.g. 'PLAYER 1'
+  score: number;
+  onDone: (initials: string) => void;
+}
+
+const CHARSET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789. ';
+
+// Arcade-style name entry: up/down roll the letter under the cursor, fire or
+// Enter moves on, and confirming on END saves. Letters can also be typed or
+// tapped.
+const InitialsEntry: React.FC<InitialsEntryProps> = ({ title, score, onDone }) => {
+  const [letters, setLetters] = useState<number[]>(() => Array(INITIALS_LENGTH).fill(0));
+  const [cursor, setCursor] = useState(0); // INITIALS_LENGTH is the END button
+
+  const onEnd = cursor === INITIALS_LENGTH;
+  const finish = () => onDone(letters.map(i => CHARSET[i]).join(''));
+
+  const roll = (slot: number, dir: 1 | -1) =>
+    setLetters(ls => ls.map((l, i) => (i === slot ? (l + dir + CHARSET.length) % CHARSET.length : l)));
+
+  const moveTo = (slot: number) => setCursor(Math.max(0, Math.min(INITIALS_LENGTH, slot)));
+
+  const type = (char: string) => {
+    if (onEnd) return;
+    const index = CHARSET.indexOf(char.toUpperCase());
+    if (index < 0) return;
+    setLetters(ls => ls.map((l, i) => (i === cursor ? index : l)));
+    moveTo(cursor + 1);
+  };
+
+  const press = (button: MenuButton) => {
+    switch (button) {
+      case 'up': if (!onEnd) roll(cursor, 1); break;
+      case 'down': if (!onEnd) roll(cursor, -1); break;
+      case 'left': case 'back': moveTo(cursor - 1); break;
+      case 'right': moveTo(cursor + 1); break;
+      case 'accept': if (onEnd) finish(); else moveTo(cursor + 1); break;
+      case 'start': finish(); break;
+    }
+  };
+
+  // Keyboard, in the capture phase so the game underneath never sees it
+  useEffect(() => {
+    const KEYS: Record<string, MenuButton> = {
+      ArrowUp: 'up', ArrowDown: 'down', ArrowLeft: 'left', ArrowRight: 'right',
+      Enter: 'accept', Backspace: 'back'
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (KEYS[e.code]) press(KEYS[e.code]);
+      else if (e.key.length === 1) type(e.key);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  });
+
+  // Gamepads: act on presses only
+  useEffect(() => {
+    let before = readMenuButtons();
+    let frame = requestAnimationFrame(function poll() {
+      const held = readMenuButtons();
+      const pressed = [...held].find(b => !before.has(b));
+      before = held;
+      if (pressed) press(pressed);
+      frame = requestAnimationFrame(poll);
+    });
+    return () => cancelAnimationFrame(frame);
+  });
+
+  const arrow = (slot: number, dir: 1 | -1) => (
+    <button className="text-[#f8b800] px-3 py-1" onClick={() => { moveTo(slot); roll(slot, dir); }}>
+      {dir > 0 ? '▲' : '▼'}
+    </button>
+  );
+
+  return (
+    <div className="absolute inset-0 bg-black/80 flex flex-col items-center justify-center gap-3 font-mono text-gray-300 z-20">
+      <div className="text-[#f8b800] text-lg">NEW HIGH SCORE</div>
+      <div className="text-white">{title} — {score}</div>
+      <div className="text-xs text-gray-500">ENTER YOUR INITIALS</div>
+      <div className="flex items-center gap-2">
+        {letters.map((l, slot) => (
+          <div key={slot} className="flex flex-col items-center">
+            {arrow(slot, 1)}
+            <button
+              className={`w-12 h-14 text-3xl border ${cursor === slot ? 'border-[#f83800] text-white' : 'border-[#444]'}`}
+              onClick={() => moveTo(slot)}
+            >
+              {CHARSET[l] === ' ' ? '_' : CHARSET[l]}
+            </button>
+            {arrow(slot, -1)}
+          </div>
+        ))}
+        <button
+          className={`ml-3 px-3 h-14 border ${onEnd ? 'border-[#f83800] text-white' : 'border-[#444]'}`}
+          onClick={finish}
+        >
+          END
+        </button>
+      </div>
+      <div className="text-xs text-gray-500">TYPE OR ▲▼ TO PICK • ENTER / A: NEXT • START OR END: SAVE</div>
+    </div>
+  );
+};
+
+export default InitialsEntry;
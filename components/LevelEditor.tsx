@@ -0,0 +1,535 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { EntityType, GameObject } from '../types';
+import { CANVAS_WIDTH, CANVAS_HEIGHT, COLORS } from '../constants';
+import { CAMPAIGN } from '../levels';
+import {
+  BossDef, EnemyDef, HazardDef, LEVEL_FORMAT_VERSION, LevelDefinition, PowerupDef, ROCKET_KINDS, RocketKind, SensorDef, TANK_BEHAVIORS, TankBehavior, TerrainDef, TURRET_MODES, TurretMode,
+  createEntityBuilder, getLevel, validateLevel
+} from '../engine/level';
+import { checkRectOverlap } from '../engine/simulation';
+import { PICKUP_NAMES } from '../engine/weapons';
+import { drawEntity, EntityView } from './renderer';
+import type { TestLevel } from './GameEngine';
+
+interface LevelEditorProps {
+  initial?: TestLevel; // Level and position to resume after a test run
+  onPlay: (test: TestLevel) => void;
+}
+
+// --- EDITOR MODEL ---
+// The editor works directly on a LevelDefinition, so what it exports is the
+// same JSON the game loads. Every item is addressed by zone, list and index,
+// and drawn through the same entity builder and renderer as the game.
+
+type ItemList = 'terrain' | 'hazards' | 'enemies' | 'powerups' | 'sensors' | 'boss';
+type Item = TerrainDef | HazardDef | EnemyDef | PowerupDef | SensorDef | BossDef;
+
+interface ItemRef {
+  zone: number;
+  list: ItemList;
+  index: number;
+}
+
+interface Placed {
+  ref: ItemRef;
+  entities: GameObject[];
+}
+
+type Tool = 'select' | 'ground' | 'platform' | 'bridge' | 'water' | 'turret' | 'sniper' | 'tank' | 'mine' | 'powerup' | 'sensor' | 'boss';
+
+const TOOLS: { id: Tool; label: string }[] = [
+  { id: 'select', label: 'Select' },
+  { id: 'ground', label: 'Ground' },
+  { id: 'platform', label: 'Platform' },
+  { id: 'bridge', label: 'Bridge' },
+  { id: 'water', label: 'Water' },
+  { id: 'turret', label: 'Turret' },
+  { id: 'sniper', label: 'Sniper' },
+  { id: 'tank', label: 'Tank' },
+  { id: 'mine', label: 'Mine' },
+  { id: 'powerup', label: 'Powerup' },
+  { id: 'sensor', label: 'Sensor' },
+  { id: 'boss', label: 'Boss' }
+];
+
+const GRID = 20;
+const SNAP = 10;
+const SCROLL_STEP = 40;
+const NUMBER_FIELDS = ['x', 'y', 'width', 'height', 'health', 'wallX', 'trigger'];
+const NEW_LEVEL = '__new';
+
+const snap = (v: number) => Math.round(v / SNAP) * SNAP;
+
+const cloneLevel = (def: LevelDefinition): LevelDefinition => JSON.parse(JSON.stringify(def));
+
+const blankLevel = (): LevelDefinition => ({
+  version: LEVEL_FORMAT_VERSION,
+  id: 'new-level',
+  name: 'New Level',
+  floorY: 420,
+  zones: [{ name: 'Start', x: 0, terrain: [{ type: 'ground', x: 0, width: 1000 }] }],
+  events: [],
+  spawns: []
+});
+
+const getItem = (level: LevelDefinition, ref: ItemRef): Item | undefined => {
+  const zone = level.zones[ref.zone];
+  if (!zone) return undefined;
+  if (ref.list === 'boss') return zone.boss;
+  return (zone[ref.list] as Item[] | undefined)?.[ref.index];
+};
+
+const removeItem = (level: LevelDefinition, ref: ItemRef) => {
+  const zone = level.zones[ref.zone];
+  if (ref.list === 'boss') delete zone.boss;
+  else (zone[ref.list] as Item[] | undefined)?.splice(ref.index, 1);
+};
+
+// Surface height an item currently uses, filling in the floorY default.
+const itemY = (level: LevelDefinition, item: Item): number => {
+  if (item.y !== undefined) return item.y;
+  return 'type' in item && item.type === 'water' ? level.floorY + 30 : level.floorY;
+};
+
+// New item for a placement tool at zone-relative (x, y).
+const createItem = (tool: Tool, x: number, y: number, weapon: string): { list: ItemList; item: Item } | null => {
+  switch (tool) {
+    case 'ground': return { list: 'terrain', item: { type: 'ground', x, width: 200, y } };
+    case 'platform': return { list: 'terrain', item: { type: 'platform', x, y, width: 100 } };
+    case 'bridge': return { list: 'terrain', item: { type: 'bridge', x, width: 200, y } };
+    case 'water': return { list: 'terrain', item: { type: 'water', x, y, width: 300, height: 150 } };
+    case 'turret': case 'sniper': case 'tank': return { list: 'enemies', item: { type: tool, x, y } };
+    case 'mine': return { list: 'hazards', item: { type: 'mine', x, y } };
+    case 'powerup': return { list: 'powerups', item: { x, y, weapon: weapon as PowerupDef['weapon'] } };
+    case 'sensor': return { list: 'sensors', item: { x, y, weapon: weapon as SensorDef['weapon'] } };
+    case 'boss': return { list: 'boss', item: { x, y, health: 250, wallX: x + 140 } };
+    default: return null;
+  }
+};
+
+// Buried turrets are invisible until they rise; the editor shows them risen.
+// Weapon sensors are shown open so their contents can be seen.
+const preview = (e: GameObject): GameObject => {
+  if (e.state === 'buried') return { ...e, pos: { x: e.pos.x, y: e.initialY ?? e.pos.y }, state: 'preview' };
+  if (e.type === EntityType.WEAPON_SENSOR) return { ...e, state: 'open', frameTimer: 60 };
+  return e;
+};
+
+// Entities for every item, in the same order loadLevel creates them.
+const layoutLevel = (level: LevelDefinition): Placed[] => {
+  const build = createEntityBuilder(level);
+  const placed: Placed[] = [];
+  level.zones.forEach((zone, z) => {
+    zone.terrain?.forEach((t, index) => placed.push({ ref: { zone: z, list: 'terrain', index }, entities: [build.terrain(t, zone.x)] }));
+    zone.hazards?.forEach((h, index) => placed.push({ ref: { zone: z, list: 'hazards', index }, entities: [build.hazard(h, zone.x)] }));
+    zone.enemies?.forEach((e, index) => placed.push({ ref: { zone: z, list: 'enemies', index }, entities: [preview(build.enemy(e, zone.x))] }));
+    zone.powerups?.forEach((p, index) => placed.push({ ref: { zone: z, list: 'powerups', index }, entities: [build.powerup(p, zone.x)] }));
+    zone.sensors?.forEach((s, index) => placed.push({ ref: { zone: z, list: 'sensors', index }, entities: [preview(build.sensor(s, zone.x))] }));
+    if (zone.boss) placed.push({ ref: { zone: z, list: 'boss', index: 0 }, entities: build.boss(zone.boss, zone.x) });
+  });
+  return placed;
+};
+
+// Zone a level x falls into: the last zone starting at or before it.
+const zoneAt = (level: LevelDefinition, x: number): number => {
+  let found = 0;
+  level.zones.forEach((zone, i) => { if (zone.x <= x && zone.x >= level.zones[found].x) found = i; });
+  return found;
+};
+
+const isTurret = (item: Item): item is EnemyDef => 'type' in item && item.type === 'turret';
+const isTank = (item: Item): item is EnemyDef => 'type' in item && item.type === 'tank';
+
+const sameRef = (a: ItemRef | null, b: ItemRef) => !!a && a.zone === b.zone && a.list === b.list && a.index === b.index;
+
+const downloadLevel = (def: LevelDefinition) => {
+  const blob = new Blob([JSON.stringify(def, null, 2) + '\n'], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${def.id}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const LevelEditor: React.FC<LevelEditorProps> = ({ initial, onPlay }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // The level is edited in place; bumping the revision re-renders and redraws.
+  const levelRef = useRef<LevelDefinition>(initial ? cloneLevel(initial.level) : cloneLevel(getLevel(CAMPAIGN[0])));
+  const [, setRevision] = useState(0);
+  const touch = useCallback(() => setRevision(r => r + 1), []);
+
+  const [tool, setTool] = useState<Tool>('select');
+  const [weapon, setWeapon] = useState('SPREAD');
+  const [selected, setSelected] = useState<ItemRef | null>(null);
+  const [scrollX, setScrollX] = useState(initial ? Math.max(0, initial.startX - 100) : 0);
+  const [playFromHere, setPlayFromHere] = useState(!!initial && initial.startX > 100);
+
+  // Drag in progress: pointer start and the item's position when it began.
+  const dragRef = useRef<{ start: { x: number; y: number }; x: number; y: number; wallX: number } | null>(null);
+
+  const level = levelRef.current;
+  const startX = playFromHere ? scrollX + 100 : 100;
+
+  const toLevelPoint = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (CANVAS_WIDTH / rect.width) + scrollX,
+      y: (e.clientY - rect.top) * (CANVAS_HEIGHT / rect.height)
+    };
+  };
+
+  const hitTest = (x: number, y: number): ItemRef | null => {
+    const point = { pos: { x, y }, size: { x: 1, y: 1 } } as GameObject;
+    const placed = layoutLevel(level);
+    for (let i = placed.length - 1; i >= 0; i--) {
+      if (placed[i].entities.some(e => checkRectOverlap(point, e))) return placed[i].ref;
+    }
+    return null;
+  };
+
+  const loadDefinition = (def: LevelDefinition) => {
+    levelRef.current = cloneLevel(def);
+    setSelected(null);
+    setScrollX(0);
+    touch();
+  };
+
+  const deleteSelected = useCallback(() => {
+    if (!selected) return;
+    removeItem(levelRef.current, selected);
+    setSelected(null);
+    touch();
+  }, [selected, touch]);
+
+  // --- Mouse ---
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const p = toLevelPoint(e);
+    if (tool === 'select') {
+      const ref = hitTest(p.x, p.y);
+      setSelected(ref);
+      const item = ref && getItem(level, ref);
+      if (item) {
+        dragRef.current = { start: p, x: item.x, y: itemY(level, item), wallX: 'wallX' in item ? item.wallX : 0 };
+      }
+      return;
+    }
+
+    const z = zoneAt(level, p.x);
+    const zone = level.zones[z];
+    const created = createItem(tool, snap(p.x - zone.x), snap(p.y), weapon);
+    if (!created) return;
+    if (created.list === 'boss') {
+      // One boss per level: the camera wall and BOSS_CORE id are unique.
+      level.zones.forEach(other => { delete other.boss; });
+      zone.boss = created.item as BossDef;
+      setSelected({ zone: z, list: 'boss', index: 0 });
+    } else {
+      const list = (zone[created.list] ??= []) as Item[];
+      list.push(created.item);
+      setSelected({ zone: z, list: created.list, index: list.length - 1 });
+    }
+    touch();
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    const item = selected && getItem(level, selected);
+    if (!drag || !item) return;
+    const p = toLevelPoint(e);
+    const dx = snap(p.x - drag.start.x);
+    const dy = snap(p.y - drag.start.y);
+    item.x = drag.x + dx;
+    item.y = drag.y + dy;
+    if ('wallX' in item) item.wallX = drag.wallX + dx;
+    touch();
+  };
+
+  const handleMouseUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleWheel = (e: React.WheelEvent<HTMLCanvasElement>) => {
+    setScrollX(x => Math.max(0, x + e.deltaY + e.deltaX));
+  };
+
+  // --- Keyboard ---
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'SELECT') return;
+      const step = e.shiftKey ? SCROLL_STEP * 5 : SCROLL_STEP;
+      switch (e.code) {
+        case 'ArrowLeft': case 'KeyA': setScrollX(x => Math.max(0, x - step)); break;
+        case 'ArrowRight': case 'KeyD': setScrollX(x => x + step); break;
+        case 'Delete': case 'Backspace':
+          e.preventDefault();
+          deleteSelected();
+          break;
+        case 'Escape': setSelected(null); break;
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [deleteSelected]);
+
+  // --- Toolbar actions ---
+
+  const addZone = () => {
+    const x = snap(scrollX + CANVAS_WIDTH / 2);
+    const name = window.prompt('Zone name', `Zone ${level.zones.length + 1}`);
+    if (!name) return;
+    level.zones.push({ name, x });
+    level.zones.sort((a, b) => a.x - b.x);
+    setSelected(null);
+    touch();
+  };
+
+  const handlePick = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    loadDefinition(e.target.value === NEW_LEVEL ? blankLevel() : getLevel(e.target.value));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      loadDefinition(validateLevel(JSON.parse(await file.text()), file.name));
+    } catch (err) {
+      console.error(err);
+      window.alert((err as Error).message);
+    }
+  };
+
+  // Validates a copy so a broken level never reaches the game or a file.
+  const checked = (): LevelDefinition | null => {
+    try {
+      return validateLevel(cloneLevel(level), level.id);
+    } catch (err) {
+      window.alert((err as Error).message);
+      return null;
+    }
+  };
+
+  const handleExport = () => {
+    const def = checked();
+    if (def) downloadLevel(def);
+  };
+
+  const handlePlay = () => {
+    const def = checked();
+    if (def) onPlay({ level: def, startX });
+  };
+
+  // --- Rendering ---
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const view: EntityView = {
+      frame: 0,
+      theme: { ground: level.theme?.ground ?? COLORS.GROUND_TOP, trim: level.theme?.trim ?? COLORS.GROUND_TRIM },
+    };
+
+    ctx.fillStyle = COLORS.SKY;
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+    ctx.save();
+    ctx.translate(-scrollX, 0);
+
+    // Grid
+    ctx.strokeStyle = '#1a1a1a';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let x = Math.floor(scrollX / GRID) * GRID; x <= scrollX + CANVAS_WIDTH; x += GRID) {
+      ctx.moveTo(x + 0.5, 0);
+      ctx.lineTo(x + 0.5, CANVAS_HEIGHT);
+    }
+    for (let y = 0; y <= CANVAS_HEIGHT; y += GRID) {
+      ctx.moveTo(scrollX, y + 0.5);
+      ctx.lineTo(scrollX + CANVAS_WIDTH, y + 0.5);
+    }
+    ctx.stroke();
+
+    // Level items
+    layoutLevel(level).forEach(({ ref, entities }) => {
+      entities.forEach(e => {
+        ctx.globalAlpha = e.state === 'preview' ? 0.5 : 1;
+        drawEntity(ctx, e, view);
+      });
+      ctx.globalAlpha = 1;
+      if (sameRef(selected, ref)) {
+        ctx.strokeStyle = '#fff';
+        ctx.lineWidth = 2;
+        entities.forEach(e => ctx.strokeRect(e.pos.x - 2, e.pos.y - 2, e.size.x + 4, Math.min(e.size.y, CANVAS_HEIGHT) + 4));
+      }
+    });
+
+    // Zone boundaries
+    ctx.font = '8px "Press Start 2P", monospace';
+    level.zones.forEach(zone => {
+      ctx.fillStyle = '#ffff00';
+      ctx.fillRect(zone.x, 0, 1, CANVAS_HEIGHT);
+      ctx.fillText(zone.name.toUpperCase(), zone.x + 4, 12);
+    });
+
+    // Player start
+    ctx.fillStyle = '#00ff00';
+    ctx.fillRect(startX, 0, 1, CANVAS_HEIGHT);
+    ctx.fillText('START', startX + 4, 24);
+
+    ctx.restore();
+
+    ctx.fillStyle = '#888';
+    ctx.textAlign = 'right';
+    ctx.fillText(`X ${Math.round(scrollX)}`, CANVAS_WIDTH - 6, CANVAS_HEIGHT - 6);
+    ctx.textAlign = 'left';
+  });
+
+  const selectedItem = selected && getItem(level, selected);
+
+  return (
+    <div className="flex flex-col gap-2 p-2 font-mono text-xs text-gray-300 bg-black">
+      <div className="flex flex-wrap items-center gap-1">
+        <select className="bg-[#222] border border-[#444] px-1 py-1" value="" onChange={handlePick}>
+          <option value="" disabled>Open...</option>
+          {CAMPAIGN.map(id => <option key={id} value={id}>{getLevel(id).name}</option>)}
+          <option value={NEW_LEVEL}>New level</option>
+        </select>
+        <button className="bg-[#222] border border-[#444] px-2 py-1" onClick={() => fileInputRef.current?.click()}>Import</button>
+        <button className="bg-[#222] border border-[#444] px-2 py-1" onClick={handleExport}>Export</button>
+        <label className="ml-2">id</label>
+        <input
+          className="bg-[#222] border border-[#444] px-1 py-1 w-28"
+          value={level.id}
+          onChange={e => { level.id = e.target.value; touch(); }}
+        />
+        <label>name</label>
+        <input
+          className="bg-[#222] border border-[#444] px-1 py-1 w-32"
+          value={level.name}
+          onChange={e => { level.name = e.target.value; touch(); }}
+        />
+        <label className="ml-2 flex items-center gap-1">
+          <input type="checkbox" checked={playFromHere} onChange={e => setPlayFromHere(e.target.checked)} />
+          Play from here
+        </label>
+        <button className="bg-[#f83800] text-white px-3 py-1" onClick={handlePlay}>Play</button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1">
+        {TOOLS.map(t => (
+          <button
+            key={t.id}
+            className={`border px-2 py-1 ${tool === t.id ? 'bg-[#f83800] border-[#f83800] text-white' : 'bg-[#222] border-[#444]'}`}
+            onClick={() => setTool(t.id)}
+          >
+            {t.label}
+          </button>
+        ))}
+        <select className="bg-[#222] border border-[#444] px-1 py-1" value={weapon} onChange={e => setWeapon(e.target.value)}>
+          {PICKUP_NAMES.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+        <button className="bg-[#222] border border-[#444] px-2 py-1 ml-2" onClick={addZone}>+ Zone</button>
+        <button className="bg-[#222] border border-[#444] px-2 py-1" onClick={deleteSelected} disabled={!selected}>Delete</button>
+      </div>
+
+      <div className="flex gap-2">
+        <canvas
+          ref={canvasRef}
+          width={CANVAS_WIDTH}
+          height={CANVAS_HEIGHT}
+          className="pixelated-canvas border border-[#333] cursor-crosshair"
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={handleMouseUp}
+          onWheel={handleWheel}
+        />
+        <div className="w-40 flex flex-col gap-1">
+          {selected && selectedItem ? (
+            <>
+              <div className="text-white">
+                {'type' in selectedItem ? selectedItem.type : selected.list === 'boss' ? 'boss' : selected.list === 'sensors' ? 'sensor' : 'powerup'}
+              </div>
+              <div className="text-gray-500">{level.zones[selected.zone].name} (x {level.zones[selected.zone].x})</div>
+              {NUMBER_FIELDS.filter(key => key in selectedItem || key === 'y' || (key === 'trigger' && isTurret(selectedItem))).map(key => (
+                <label key={key} className="flex justify-between items-center">
+                  {key}
+                  <input
+                    type="number"
+                    className="bg-[#222] border border-[#444] px-1 w-20"
+                    value={(selectedItem as unknown as Record<string, number>)[key] ?? ''}
+                    placeholder={key === 'y' ? String(itemY(level, selectedItem)) : undefined}
+                    onChange={e => {
+                      const fields = selectedItem as unknown as Record<string, number | undefined>;
+                      fields[key] = e.target.value === '' ? undefined : Number(e.target.value);
+                      touch();
+                    }}
+                  />
+                </label>
+              ))}
+              {'weapon' in selectedItem && (
+                <select
+                  className="bg-[#222] border border-[#444] px-1 py-1"
+                  value={selectedItem.weapon}
+                  onChange={e => { selectedItem.weapon = e.target.value as PowerupDef['weapon']; touch(); }}
+                >
+                  {PICKUP_NAMES.map(name => <option key={name} value={name}>{name}</option>)}
+                </select>
+              )}
+              {isTurret(selectedItem) && (
+                <>
+                  <select
+                    className="bg-[#222] border border-[#444] px-1 py-1"
+                    value={selectedItem.mode ?? 'open'}
+                    onChange={e => { selectedItem.mode = e.target.value as TurretMode; touch(); }}
+                  >
+                    {TURRET_MODES.map(mode => <option key={mode} value={mode}>{mode}</option>)}
+                  </select>
+                  <select
+                    className="bg-[#222] border border-[#444] px-1 py-1"
+                    value={selectedItem.directions ?? 12}
+                    onChange={e => { selectedItem.directions = Number(e.target.value) as 8 | 12; touch(); }}
+                  >
+                    <option value={8}>8 directions</option>
+                    <option value={12}>12 directions</option>
+                  </select>
+                </>
+              )}
+              {isTank(selectedItem) && (
+                <>
+                  <select
+                    className="bg-[#222] border border-[#444] px-1 py-1"
+                    value={selectedItem.behavior ?? 'patrol'}
+                    onChange={e => { selectedItem.behavior = e.target.value as TankBehavior; touch(); }}
+                  >
+                    {TANK_BEHAVIORS.map(b => <option key={b} value={b}>{b}</option>)}
+                  </select>
+                  <select
+                    className="bg-[#222] border border-[#444] px-1 py-1"
+                    value={selectedItem.rockets ?? 'straight'}
+                    onChange={e => { selectedItem.rockets = e.target.value as RocketKind; touch(); }}
+                  >
+                    {ROCKET_KINDS.map(k => <option key={k} value={k}>{k} rockets</option>)}
+                  </select>
+                </>
+              )}
+            </>
+          ) : (
+            <div className="text-gray-500">
+              Click to place with the current tool. Select to drag or edit. Arrows / A D / wheel scroll, Shift for faster, Delete removes.
+            </div>
+          )}
+        </div>
+      </div>
+      <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+    </div>
+  );
+};
+
+export default LevelEditor;
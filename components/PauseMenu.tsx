@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { DIFFICULTIES, SUPER_RECHARGES } from '../engine/world';
+import { MenuButton, readMenuButtons } from './input';
+import { Volumes } from './audio';
+import { Options } from './options';
+
+interface PauseMenuProps {
+  canRestart: boolean; // Not online or while watching a replay
+  quitLabel: string;
+  volumes: Volumes;
+  onVolumesChange: (volumes: Volumes) => void;
+  options: Options;
+  onOptionsChange: (options: Options) => void;
+  onResume: () => void;
+  onRestart: () => void;
+  onControls: () => void;
+  onQuit: () => void;
+}
+
+// A row is either activated (Enter, A, click) or adjusted (left/right, or
+// its arrow buttons); some are both.
+interface Item {
+  label: string;
+  value?: string;
+  note?: string;
+  activate?: () => void;
+  adjust?: (dir: 1 | -1) => void;
+}
+
+type Page = 'main' | 'options';
+
+const VOLUME_STEP = 0.1;
+
+const cycle = <T,>(list: T[], current: T, dir: 1 | -1): T =>
+  list[(list.indexOf(current) + dir + list.length) % list.length];
+
+// Pause menu over the frozen game. Arrows or the pad move, Enter/A picks,
+// left/right change values, Esc/B goes back; every row can also be tapped.
+const PauseMenu: React.FC<PauseMenuProps> = props => {
+  const { volumes, options, onVolumesChange, onOptionsChange } = props;
+  const [page, setPage] = useState<Page>('main');
+  const [cursor, setCursor] = useState(0);
+
+  const open = (next: Page) => {
+    setPage(next);
+    setCursor(0);
+  };
+
+  const volumeItem = (key: keyof Volumes, label: string): Item => ({
+    label,
+    value: `${Math.round(volumes[key] * 100)}%`,
+    adjust: dir => {
+      const value = Math.round(Math.min(1, Math.max(0, volumes[key] + dir * VOLUME_STEP)) * 10) / 10;
+      onVolumesChange({ ...volumes, [key]: value });
+    }
+  });
+
+  const toggleScanlines = () => onOptionsChange({ ...options, scanlines: !options.scanlines });
+  const changeDifficulty = (dir: 1 | -1) => onOptionsChange({ ...options, difficulty: cycle(DIFFICULTIES, options.difficulty, dir) });
+  const changeRecharge = (dir: 1 | -1) => onOptionsChange({ ...options, superRecharge: cycle(SUPER_RECHARGES, options.superRecharge, dir) });
+
+  const items: Item[] = page === 'main'
+    ? [
+        { label: 'RESUME', activate: props.onResume },
+        ...(props.canRestart ? [{ label: 'RESTART STAGE', activate: props.onRestart }] : []),
+        { label: 'OPTIONS', activate: () => open('options') },
+        { label: props.quitLabel, activate: props.onQuit }
+      ]
+    : [
+        volumeItem('master', 'MASTER VOLUME'),
+        volumeItem('music', 'MUSIC'),
+        volumeItem('sfx', 'SOUND EFFECTS'),
+        { label: 'SCANLINES', value: options.scanlines ? 'ON' : 'OFF', activate: toggleScanlines, adjust: toggleScanlines },
+        {
+          label: 'DIFFICULTY', value: options.difficulty.toUpperCase(), note: 'FROM THE NEXT RUN',
+          activate: () => changeDifficulty(1), adjust: changeDifficulty
+        },
+        {
+          label: 'SUPER RECHARGE', value: options.superRecharge.toUpperCase(), note: 'FROM THE NEXT RUN',
+          activate: () => changeRecharge(1), adjust: changeRecharge
+        },
+        { label: 'CONTROLS', activate: props.onControls },
+        { label: 'BACK', activate: () => open('main') }
+      ];
+
+  const selected = Math.min(cursor, items.length - 1);
+  const move = (dir: 1 | -1) => setCursor((selected + dir + items.length) % items.length);
+  const back = () => (page === 'main' ? props.onResume() : open('main'));
+
+  const press = (button: MenuButton) => {
+    const item = items[selected];
+    switch (button) {
+      case 'up': move(-1); break;
+      case 'down': move(1); break;
+      case 'left': item.adjust?.(-1); break;
+      case 'right': item.adjust?.(1); break;
+      case 'accept': item.activate?.(); break;
+      case 'back': back(); break;
+      case 'start': props.onResume(); break;
+    }
+  };
+
+  // Keyboard, in the capture phase so the game underneath never sees it
+  useEffect(() => {
+    const KEYS: Record<string, MenuButton> = {
+      ArrowUp: 'up', KeyW: 'up', ArrowDown: 'down', KeyS: 'down',
+      ArrowLeft: 'left', KeyA: 'left', ArrowRight: 'right', KeyD: 'right',
+      Enter: 'accept', Space: 'accept', KeyJ: 'accept',
+      Escape: 'back', Backspace: 'back', KeyP: 'start'
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      const button = KEYS[e.code];
+      if (button && !e.repeat) press(button);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  });
+
+  // Gamepads: act on presses only, so the Start that opened the menu is ignored
+  useEffect(() => {
+    let before = readMenuButtons();
+    let frame = requestAnimationFrame(function poll() {
+      const held = readMenuButtons();
+      const pressed = [...held].find(b => !before.has(b));
+      before = held;
+      if (pressed) press(pressed);
+      frame = requestAnimationFrame(poll);
+    });
+    return () => cancelAnimationFrame(frame);
+  });
+
+  const arrow = (item: Item, dir: 1 | -1) => (
+    <span
+      className="px-2 text-[#f8b800] cursor-pointer"
+      onClick={e => { e.stopPropagation(); item.adjust?.(dir); }}
+    >
+      {dir < 0 ? '<' : '>'}
+    </span>
+  );
+
+  return (
+    <div className="absolute inset-0 bg-black/80 flex flex-col items-center justify-center gap-2 font-mono text-sm text-gray-300 z-20" onContextMenu={e => e.preventDefault()}>
+      <div className="text-white text-lg mb-2">{page === 'main' ? 'PAUSED' : 'OPTIONS'}</div>
+      {items.map((item, i) => (
+        <button
+          key={item.label}
+          className={`w-72 px-3 py-2 border flex justify-between items-center ${i === selected ? 'border-[#f83800] text-white' : 'border-[#444] bg-[#222]'}`}
+          onMouseEnter={() => setCursor(i)}
+          onClick={() => { setCursor(i); (item.activate ?? (() => item.adjust?.(1)))(); }}
+        >
+          <span>{item.label}</span>
+          {item.value !== undefined && (
+            <span>
+              {item.adjust && arrow(item, -1)}
+              {item.value}
+              {item.adjust && arrow(item, 1)}
+            </span>
+          )}
+        </button>
+      ))}
+      <div className="text-gray-500 text-xs h-4">{items[selected].note ?? ''}</div>
+      <div className="text-gray-500 text-xs">ARROWS / D-PAD: Select • ENTER / A: Choose • ESC / B: Back</div>
+    </div>
+  );
+};
+
+export default PauseMenu;
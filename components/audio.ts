@@ -0,0 +1,412 @@
+import { WeaponType } from '../types';
+import { SoundCue } from '../engine/world';
+import { TRACKS, Track } from '../levels/music';
+
+// --- AUDIO ---
+// NES-style sound synthesized with Web Audio: pulse waves at three duty
+// cycles, a triangle and filtered noise. The simulation only raises cues
+// (world.sounds); this module turns them into effects and loops the music
+// track of the current zone. None of it feeds back into the game, so
+// Math.random() is fine here.
+
+export interface Volumes {
+  master: number; // 0..1
+  music: number;
+  sfx: number;
+}
+
+const STORAGE_KEY = 'contra_audio';
+
+export const defaultVolumes = (): Volumes => ({ master: 0.8, music: 0.6, sfx: 0.8 });
+
+export const loadVolumes = (): Volumes => {
+  const volumes = defaultVolumes();
+  try {
+    const data = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    (Object.keys(volumes) as (keyof Volumes)[]).forEach(key => {
+      const saved = data?.[key];
+      if (typeof saved === 'number' && saved >= 0 && saved <= 1) volumes[key] = saved;
+    });
+  } catch (err) {
+    console.error('Ignoring saved volumes', err);
+  }
+  return volumes;
+};
+
+export const saveVolumes = (volumes: Volumes) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(volumes));
+};
+
+// --- Synthesis ---
+
+type Duty = 0.125 | 0.25 | 0.5;
+const DUTIES: Duty[] = [0.125, 0.25, 0.5];
+
+// One sound layer. For 'noise', `from`/`to` sweep the filter cutoff instead of the pitch.
+interface Layer {
+  wave: Duty | 'triangle' | 'noise';
+  from: number;       // Hz
+  to?: number;        // Hz at the end, for sweeps
+  duration: number;   // Seconds
+  volume: number;
+  delay?: number;     // Seconds after the cue
+  sustain?: number;   // Level held until the release, as a fraction of `volume` (0 = fade out)
+  filter?: BiquadFilterType; // Noise colour, lowpass by default
+}
+
+interface Mixer {
+  context: AudioContext;
+  master: GainNode;
+  music: GainNode;
+  sfx: GainNode;
+  pulses: Map<Duty, PeriodicWave>;
+  noise: AudioBuffer;
+}
+
+// Fourier series of a pulse wave that is high for `duty` of each period.
+const pulseWave = (context: AudioContext, duty: Duty): PeriodicWave => {
+  const harmonics = 32;
+  const real = new Float32Array(harmonics);
+  const imag = new Float32Array(harmonics);
+  for (let n = 1; n < harmonics; n++) real[n] = (2 / (n * Math.PI)) * Math.sin(n * Math.PI * duty);
+  return context.createPeriodicWave(real, imag);
+};
+
+const createMixer = (context: AudioContext): Mixer => {
+  const master = context.createGain();
+  const music = context.createGain();
+  const sfx = context.createGain();
+  music.connect(master);
+  sfx.connect(master);
+  master.connect(context.destination);
+
+  const noise = context.createBuffer(1, context.sampleRate, context.sampleRate);
+  const samples = noise.getChannelData(0);
+  for (let i = 0; i < samples.length; i++) samples[i] = Math.random() * 2 - 1;
+
+  return { context, master, music, sfx, pulses: new Map(DUTIES.map(d => [d, pulseWave(context, d)])), noise };
+};
+
+const RELEASE = 0.02;
+
+const play = (mixer: Mixer, out: AudioNode, layer: Layer, at: number) => {
+  const { context } = mixer;
+  const start = at + (layer.delay ?? 0);
+  const end = start + layer.duration;
+
+  const gain = context.createGain();
+  const sustain = layer.volume * (layer.sustain ?? 0);
+  gain.gain.setValueAtTime(layer.volume, start);
+  gain.gain.linearRampToValueAtTime(sustain, Math.max(start, end - RELEASE));
+  gain.gain.linearRampToValueAtTime(0, end);
+  gain.connect(out);
+
+  const sweep = (param: AudioParam) => {
+    param.setValueAtTime(layer.from, start);
+    if (layer.to !== undefined && layer.to !== layer.from) param.exponentialRampToValueAtTime(layer.to, end);
+  };
+
+  let source: AudioScheduledSourceNode;
+  if (layer.wave === 'noise') {
+    const noise = context.createBufferSource();
+    noise.buffer = mixer.noise;
+    noise.loop = true;
+    const filter = context.createBiquadFilter();
+    filter.type = layer.filter ?? 'lowpass';
+    sweep(filter.frequency);
+    noise.connect(filter).connect(gain);
+    noise.start(start, Math.random() * mixer.noise.duration);
+    source = noise;
+  } else {
+    const osc = context.createOscillator();
+    if (layer.wave === 'triangle') osc.type = 'triangle';
+    else osc.setPeriodicWave(mixer.pulses.get(layer.wave)!);
+    sweep(osc.frequency);
+    osc.connect(gain);
+    osc.start(start);
+    source = osc;
+  }
+  source.stop(end + 0.01);
+  source.onended = () => gain.disconnect();
+};
+
+// --- Effects ---
+
+const SHOT_EFFECTS: Record<WeaponType, Layer[]> = {
+  [WeaponType.NORMAL]: [{ wave: 0.125, from: 1400, to: 300, duration: 0.07, volume: 0.2 }],
+  [WeaponType.SPREAD]: [
+    { wave: 0.25, from: 900, to: 150, duration: 0.1, volume: 0.18 },
+    { wave: 'noise', filter: 'highpass', from: 3000, duration: 0.06, volume: 0.15 }
+  ],
+  [WeaponType.LASER]: [
+    { wave: 0.5, from: 2400, to: 500, duration: 0.2, volume: 0.14 },
+    { wave: 0.125, from: 2430, to: 510, duration: 0.2, volume: 0.1 } // Slightly detuned for the buzz
+  ],
+  [WeaponType.MACHINE_GUN]: [
+    { wave: 'noise', filter: 'bandpass', from: 1600, duration: 0.04, volume: 0.25 },
+    { wave: 0.125, from: 600, to: 200, duration: 0.03, volume: 0.12 }
+  ],
+  // Low whoosh
+  [WeaponType.FIRE]: [
+    { wave: 'noise', filter: 'lowpass', from: 1200, to: 250, duration: 0.15, volume: 0.3 },
+    { wave: 'triangle', from: 180, to: 90, duration: 0.12, volume: 0.2 }
+  ]
+};
+
+const EFFECTS: Record<string, Layer[]> = {
+  explosion: [{ wave: 'noise', from: 2000, to: 200, duration: 0.25, volume: 0.35 }],
+  bigExplosion: [
+    { wave: 'noise', from: 1500, to: 80, duration: 0.7, volume: 0.5 },
+    { wave: 'triangle', from: 120, to: 30, duration: 0.4, volume: 0.4 }
+  ],
+  // C E G C arpeggio
+  powerup: [523, 659, 784, 1047].map((from, i) => ({ wave: 0.5 as Duty, from, duration: 0.08, volume: 0.15, delay: i * 0.06 })),
+  // The powerup arpeggio an octave up, twice
+  extraLife: [1047, 1319, 1568, 2093, 1047, 1319, 1568, 2093].map((from, i) => ({ wave: 0.25 as Duty, from, duration: 0.06, volume: 0.14, delay: i * 0.05 })),
+  death: [
+    { wave: 0.25, from: 900, to: 80, duration: 0.6, volume: 0.2 },
+    { wave: 'noise', from: 3000, to: 300, duration: 0.4, volume: 0.25 }
+  ],
+  thrust: [{ wave: 'noise', filter: 'bandpass', from: 700, duration: 0.06, volume: 0.08 }],
+  // Rising sweep into a long rumble
+  bomb: [
+    { wave: 0.5, from: 200, to: 1600, duration: 0.3, volume: 0.15 },
+    { wave: 'noise', from: 1200, to: 60, duration: 1.2, volume: 0.5, delay: 0.25 },
+    { wave: 'triangle', from: 90, to: 25, duration: 1, volume: 0.4, delay: 0.25 }
+  ],
+  bossHit: [
+    { wave: 'triangle', from: 300, to: 120, duration: 0.07, volume: 0.3 },
+    { wave: 'noise', filter: 'highpass', from: 2500, duration: 0.03, volume: 0.12 }
+  ],
+  armorHit: [{ wave: 0.125, from: 2600, to: 2200, duration: 0.05, volume: 0.12 }]
+};
+
+const effectFor = (cue: SoundCue): [string, Layer[]] => {
+  switch (cue.type) {
+    case 'shot': return [`shot${cue.weapon}`, SHOT_EFFECTS[cue.weapon]];
+    case 'explosion': return cue.big ? ['bigExplosion', EFFECTS.bigExplosion] : ['explosion', EFFECTS.explosion];
+    case 'bossHit': return cue.armored ? ['armorHit', EFFECTS.armorHit] : ['bossHit', EFFECTS.bossHit];
+    default: return [cue.type, EFFECTS[cue.type]];
+  }
+};
+
+// The same effect again within this many seconds is dropped, so a burst of
+// explosions in one tick doesn't stack into one loud click.
+const MIN_REPEAT = 0.03;
+
+// --- Music ---
+
+type Voice = 'pulse1' | 'pulse2' | 'triangle' | 'noise';
+const VOICES: Voice[] = ['pulse1', 'pulse2', 'triangle', 'noise'];
+
+// How the tonal channels sound: lead and harmony pulses, triangle bass.
+const VOICE_LAYERS: Record<Exclude<Voice, 'noise'>, Omit<Layer, 'from' | 'duration'>> = {
+  pulse1: { wave: 0.25, volume: 0.16, sustain: 0.6 },
+  pulse2: { wave: 0.5, volume: 0.09, sustain: 0.5 },
+  triangle: { wave: 'triangle', volume: 0.3, sustain: 0.9 }
+};
+
+const DRUMS: Record<string, Pick<Layer, 'from' | 'filter' | 'volume'> & { length: number }> = {
+  x: { from: 7000, filter: 'highpass', volume: 0.1, length: 0.04 }, // Hi-hat
+  o: { from: 1800, filter: 'bandpass', volume: 0.2, length: 0.12 }  // Snare
+};
+
+interface Note {
+  token: string;
+  steps: number; // Sixteenths, including held ones
+}
+
+interface Channel {
+  voice: Voice;
+  notes: (Note | null)[]; // By step; null where nothing starts
+}
+
+const NOTE_OFFSETS: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+const noteFrequency = (token: string): number | null => {
+  const match = /^([A-G])([#b]?)(\d)$/.exec(token);
+  if (!match) return null;
+  const semitone = NOTE_OFFSETS[match[1]] + (match[2] === '#' ? 1 : match[2] === 'b' ? -1 : 0);
+  const midi = 12 * (Number(match[3]) + 1) + semitone;
+  return 440 * 2 ** ((midi - 69) / 12);
+};
+
+const parseChannel = (trackId: string, voice: Voice, text: string): Channel => {
+  const tokens = text.split(/\s+/).filter(t => t !== '' && t !== '|');
+  const notes: (Note | null)[] = [];
+  let current: Note | null = null;
+  tokens.forEach(token => {
+    if (token === '-') {
+      if (current) current.steps++;
+      notes.push(null);
+      return;
+    }
+    current = null;
+    if (token !== '.') {
+      const valid = voice === 'noise' ? token in DRUMS : noteFrequency(token) !== null;
+      if (!valid) throw new Error(`Track "${trackId}" ${voice}: bad token "${token}"`);
+      current = { token, steps: 1 };
+    }
+    notes.push(current);
+  });
+  return { voice, notes };
+};
+
+const parseTrack = (id: string, track: Track): Channel[] =>
+  VOICES.filter(v => track[v]).map(v => parseChannel(id, v, track[v]!)).filter(c => c.notes.length > 0);
+
+const LOOKAHEAD = 0.12;       // Seconds of music scheduled ahead of the clock
+const SCHEDULE_INTERVAL = 25; // ms between scheduler runs
+
+interface MusicPlayer {
+  channels: Channel[];
+  bus: GainNode;      // This track only, so it can fade out on a change
+  step: number;       // Next step to schedule
+  time: number;       // Context time of that step
+  stepLength: number; // Seconds per sixteenth
+  timer: number;
+}
+
+const playNote = (mixer: Mixer, music: MusicPlayer, voice: Voice, note: Note) => {
+  const duration = note.steps * music.stepLength;
+  if (voice === 'noise') {
+    const drum = DRUMS[note.token];
+    play(mixer, music.bus, { wave: 'noise', from: drum.from, filter: drum.filter, volume: drum.volume, duration: Math.min(duration, drum.length) }, music.time);
+    return;
+  }
+  play(mixer, music.bus, { ...VOICE_LAYERS[voice], from: noteFrequency(note.token)!, duration }, music.time);
+};
+
+const schedule = (mixer: Mixer, music: MusicPlayer) => {
+  const now = mixer.context.currentTime;
+  // After a stall (background tab) skip ahead instead of playing the backlog at once
+  if (music.time < now) music.time = now;
+  while (music.time < now + LOOKAHEAD) {
+    music.channels.forEach(channel => {
+      const note = channel.notes[music.step % channel.notes.length];
+      if (note) playNote(mixer, music, channel.voice, note);
+    });
+    music.step++;
+    music.time += music.stepLength;
+  }
+};
+
+// --- Engine ---
+
+export interface AudioEngine {
+  mixer: Mixer | null;  // Built on the first user gesture; browsers block sound before one
+  volumes: Volumes;
+  track: string | null; // Wanted track, also remembered while still locked
+  music: MusicPlayer | null;
+  musicPaused: boolean;
+  lastPlayed: Map<string, number>;
+}
+
+export const createAudio = (volumes: Volumes): AudioEngine => ({
+  mixer: null,
+  volumes,
+  track: null,
+  music: null,
+  musicPaused: false,
+  lastPlayed: new Map()
+});
+
+const applyVolumes = (audio: AudioEngine) => {
+  const mixer = audio.mixer;
+  if (!mixer) return;
+  const now = mixer.context.currentTime;
+  mixer.master.gain.setTargetAtTime(audio.volumes.master, now, 0.01);
+  mixer.music.gain.setTargetAtTime(audio.volumes.music, now, 0.01);
+  mixer.sfx.gain.setTargetAtTime(audio.volumes.sfx, now, 0.01);
+};
+
+const stopMusic = (audio: AudioEngine) => {
+  const music = audio.music;
+  if (!music || !audio.mixer) return;
+  window.clearInterval(music.timer);
+  music.bus.gain.setTargetAtTime(0, audio.mixer.context.currentTime, 0.03);
+  window.setTimeout(() => music.bus.disconnect(), 500);
+  audio.music = null;
+};
+
+const resumeMusic = (audio: AudioEngine) => {
+  const { music, mixer } = audio;
+  if (!music || !mixer || audio.musicPaused) return;
+  music.time = Math.max(music.time, mixer.context.currentTime + 0.05);
+  music.timer = window.setInterval(() => schedule(mixer, music), SCHEDULE_INTERVAL);
+  schedule(mixer, music);
+};
+
+const startMusic = (audio: AudioEngine) => {
+  stopMusic(audio);
+  const mixer = audio.mixer;
+  if (!mixer || !audio.track) return;
+  const track = TRACKS[audio.track];
+  if (!track) {
+    console.warn(`Unknown music track "${audio.track}"`);
+    return;
+  }
+  const bus = mixer.context.createGain();
+  bus.connect(mixer.music);
+  const music: MusicPlayer = {
+    channels: parseTrack(audio.track, track),
+    bus,
+    step: 0,
+    time: mixer.context.currentTime + 0.05,
+    stepLength: 60 / track.tempo / 4,
+    timer: 0
+  };
+  audio.music = music;
+  resumeMusic(audio);
+};
+
+// Call from input handlers: creates or resumes the audio context.
+export const unlockAudio = (audio: AudioEngine) => {
+  if (!audio.mixer) {
+    const Context = window.AudioContext ?? (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!Context) return;
+    audio.mixer = createMixer(new Context());
+    applyVolumes(audio);
+    startMusic(audio);
+  }
+  if (audio.mixer.context.state === 'suspended') audio.mixer.context.resume();
+};
+
+export const setVolumes = (audio: AudioEngine, volumes: Volumes) => {
+  audio.volumes = volumes;
+  applyVolumes(audio);
+};
+
+// Plays the cues of one step.
+export const playCues = (audio: AudioEngine, cues: SoundCue[]) => {
+  const mixer = audio.mixer;
+  if (!mixer || mixer.context.state !== 'running') return;
+  const now = mixer.context.currentTime;
+  cues.forEach(cue => {
+    const [key, layers] = effectFor(cue);
+    if (now - (audio.lastPlayed.get(key) ?? -Infinity) < MIN_REPEAT) return;
+    audio.lastPlayed.set(key, now);
+    layers.forEach(layer => play(mixer, mixer.sfx, layer, now));
+  });
+};
+
+// Switches to track `id` (null for silence); the same track keeps playing.
+export const playTrack = (audio: AudioEngine, id: string | null) => {
+  if (audio.track === id) return;
+  audio.track = id;
+  startMusic(audio);
+};
+
+// Holds the music where it is (pause menu) and picks it up again from there.
+export const setMusicPaused = (audio: AudioEngine, paused: boolean) => {
+  if (audio.musicPaused === paused) return;
+  audio.musicPaused = paused;
+  if (audio.music) window.clearInterval(audio.music.timer);
+  if (!paused) resumeMusic(audio);
+};
+
+export const closeAudio = (audio: AudioEngine) => {
+  stopMusic(audio);
+  audio.mixer?.context.close();
+  audio.mixer = null;
+};
@@ -0,0 +1,75 @@
+// --- HIGH SCORES ---
+// Top-10 table in localStorage. The stored object is versioned; older saves
+// are migrated on load. Before the table existed only the best score was
+// kept, as a bare number under 'contra_highscore'.
+
+export interface HighScoreEntry {
+  initials: string; // Three characters
+  score: number;
+  stage: string;    // Name of the stage reached
+  weapon: string;   // Weapon held at the end, e.g. 'SPREAD'
+  date: string;     // ISO date of the run
+}
+
+const HIGH_SCORES_VERSION = 1;
+const STORAGE_KEY = 'contra_highscores';
+const LEGACY_KEY = 'contra_highscore';
+export const MAX_HIGH_SCORES = 10;
+export const DEFAULT_HIGH_SCORE = 20000; // HI shown while the table is empty
+export const INITIALS_LENGTH = 3;
+
+const isEntry = (e: unknown): e is HighScoreEntry => {
+  if (typeof e !== 'object' || e === null) return false;
+  const { initials, score, stage, weapon, date } = e as Record<string, unknown>;
+  return typeof initials === 'string' && typeof score === 'number' && Number.isInteger(score) && score >= 0 &&
+    typeof stage === 'string' && typeof weapon === 'string' && typeof date === 'string';
+};
+
+const sortEntries = (entries: HighScoreEntry[]) =>
+  [...entries].sort((a, b) => b.score - a.score).slice(0, MAX_HIGH_SCORES);
+
+export const saveHighScores = (entries: HighScoreEntry[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: HIGH_SCORES_VERSION, entries }));
+};
+
+// The saved table, best first. Unreadable entries are dropped; a legacy
+// single score becomes one anonymous entry and the old key is removed.
+export const loadHighScores = (): HighScoreEntry[] => {
+  try {
+    const data = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (data && data.version === HIGH_SCORES_VERSION && Array.isArray(data.entries)) {
+      return sortEntries(data.entries.filter(isEntry));
+    }
+    if (data) {
+      console.error(`Ignoring high scores with unknown version ${data.version}`);
+      return [];
+    }
+
+    const legacy = localStorage.getItem(LEGACY_KEY);
+    if (legacy === null) return [];
+    const score = parseInt(legacy, 10);
+    const entries = Number.isInteger(score) && score > 0
+      ? [{ initials: '---', score, stage: '-', weapon: '-', date: new Date().toISOString() }]
+      : [];
+    saveHighScores(entries);
+    localStorage.removeItem(LEGACY_KEY);
+    return entries;
+  } catch (err) {
+    console.error('Ignoring saved high scores', err);
+    return [];
+  }
+};
+
+export const topScore = (entries: HighScoreEntry[]) => entries[0]?.score ?? DEFAULT_HIGH_SCORE;
+
+export const qualifies = (entries: HighScoreEntry[], score: number) =>
+  score > 0 && (entries.length < MAX_HIGH_SCORES || score > entries[entries.length - 1].score);
+
+// Adds `entry` below any equal scores. Returns the new table and the entry's
+// index in it (-1 if it didn't make the cut).
+export const insertHighScore = (entries: HighScoreEntry[], entry: HighScoreEntry): { entries: HighScoreEntry[]; rank: number } => {
+  let index = entries.findIndex(e => e.score < entry.score);
+  if (index < 0) index = entries.length;
+  const next = [...entries.slice(0, index), entry, ...entries.slice(index)].slice(0, MAX_HIGH_SCORES);
+  return { entries: next, rank: index < MAX_HIGH_SCORES ? index : -1 };
+};
@@ -0,0 +1,160 @@
+import { InputState } from '../types';
+import { createInput } from '../engine/world';
+
+// --- INPUT ---
+// Keyboard, mouse and gamepads all end up in the same InputState. Devices only
+// record what is held; bindings decide what that means when a player's input
+// is read, so rebinding never leaves a button stuck.
+
+export type Action = keyof InputState;
+
+export const ACTIONS: Action[] = ['left', 'right', 'up', 'down', 'jump', 'shoot', 'altFire', 'rocket'];
+
+export const ACTION_LABELS: Record<Action, string> = {
+  left: 'LEFT', right: 'RIGHT', up: 'UP / AIM UP', down: 'DOWN / DUCK',
+  jump: 'JUMP', shoot: 'FIRE', altFire: 'SUPER BOMB', rocket: 'ROCKET MODE'
+};
+
+// Keyboard bindings are KeyboardEvent.code values; mouse buttons bind as
+// 'Mouse0' (left) and 'Mouse2' (right). Pad bindings are button indices of the
+// browser's standard gamepad mapping and are shared by every pad.
+export interface Bindings {
+  version: number;
+  keys: Record<Action, string[]>[]; // Per player
+  pad: Record<Action, number[]>;
+  touch: { leftHanded: boolean };   // On-screen controls: stick on the right, buttons on the left
+}
+
+const BINDINGS_VERSION = 1;
+const STORAGE_KEY = 'contra_bindings';
+const STICK_DEAD_ZONE = 0.35;
+
+export const defaultBindings = (): Bindings => ({
+  version: BINDINGS_VERSION,
+  keys: [
+    {
+      left: ['KeyA'], right: ['KeyD'], up: ['KeyW'], down: ['KeyS'],
+      jump: ['Space', 'KeyK', 'KeyZ'], shoot: ['KeyJ', 'Mouse0'], altFire: ['Mouse2'], rocket: ['KeyX']
+    },
+    {
+      left: ['ArrowLeft'], right: ['ArrowRight'], up: ['ArrowUp'], down: ['ArrowDown'],
+      jump: ['Period', 'Numpad2'], shoot: ['Comma', 'Enter', 'Numpad1'], altFire: ['Numpad0'], rocket: ['Slash', 'Numpad3']
+    }
+  ],
+  // A jumps, X or B fires, RB is the super bomb, Y the rocket; d-pad moves
+  pad: { left: [14], right: [15], up: [12], down: [13], jump: [0], shoot: [2, 1], altFire: [5], rocket: [3] },
+  touch: { leftHanded: false }
+});
+
+const isBindingList = <T>(value: unknown, item: (v: unknown) => boolean): value is T[] =>
+  Array.isArray(value) && value.every(item);
+
+// Saved bindings, or the defaults when nothing usable is stored.
+export const loadBindings = (): Bindings => {
+  const defaults = defaultBindings();
+  try {
+    const data = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (!data || data.version !== BINDINGS_VERSION) return defaults;
+    // Take whatever is valid per action so one bad entry doesn't wipe the rest
+    defaults.keys.forEach((keys, player) => ACTIONS.forEach(action => {
+      const saved = data.keys?.[player]?.[action];
+      if (isBindingList<string>(saved, v => typeof v === 'string')) keys[action] = saved;
+    }));
+    ACTIONS.forEach(action => {
+      const saved = data.pad?.[action];
+      if (isBindingList<number>(saved, v => Number.isInteger(v))) defaults.pad[action] = saved;
+    });
+    if (typeof data.touch?.leftHanded === 'boolean') defaults.touch.leftHanded = data.touch.leftHanded;
+  } catch (err) {
+    console.error('Ignoring saved bindings', err);
+  }
+  return defaults;
+};
+
+export const saveBindings = (bindings: Bindings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+};
+
+// Short names for the controls screen.
+export const keyLabel = (code: string): string => {
+  if (code === 'Mouse0') return 'L-CLICK';
+  if (code === 'Mouse2') return 'R-CLICK';
+  return code.replace(/^Key|^Digit/, '').replace(/^Arrow/, '').toUpperCase();
+};
+
+const PAD_LABELS = ['A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'SELECT', 'START', 'L3', 'R3', 'D-UP', 'D-DOWN', 'D-LEFT', 'D-RIGHT'];
+export const padLabel = (button: number): string => PAD_LABELS[button] ?? `BTN ${button}`;
+
+// --- Devices ---
+
+export interface InputDevices {
+  held: Set<string>; // Key codes and mouse buttons currently down
+  bindings: Bindings;
+}
+
+export const createInputDevices = (bindings: Bindings): InputDevices => ({ held: new Set(), bindings });
+
+export const pressKey = (devices: InputDevices, code: string) => { devices.held.add(code); };
+export const releaseKey = (devices: InputDevices, code: string) => { devices.held.delete(code); };
+export const mouseCode = (button: number) => `Mouse${button}`;
+
+export const readGamepads = (): (Gamepad | null)[] =>
+  typeof navigator !== 'undefined' && navigator.getGamepads ? Array.from(navigator.getGamepads()) : [];
+
+// A stick vector (-1..1, y down) as 8-way aim: outside the dead zone its angle
+// snaps to the nearest of eight directions, so diagonals are as easy to hold
+// as straights. Used for gamepad sticks and the touch joystick.
+export const stickDirections = (x: number, y: number, deadZone: number = STICK_DEAD_ZONE): Partial<InputState> => {
+  if (Math.hypot(x, y) < deadZone) return {};
+  const sector = (Math.round(Math.atan2(y, x) / (Math.PI / 4)) + 8) % 8; // 0 = right, 2 = down
+  return {
+    right: sector === 7 || sector === 0 || sector === 1,
+    down: sector >= 1 && sector <= 3,
+    left: sector >= 3 && sector <= 5,
+    up: sector >= 5 && sector <= 7
+  };
+};
+
+// Input for `player`. With `ownKeys` false (one player at this keyboard) every
+// keyboard layout drives them; in local co-op each player only has their own.
+export const readPlayerInput = (devices: InputDevices, player: number, ownKeys: boolean, pad: Gamepad | null | undefined): InputState => {
+  const input = createInput();
+  const layouts = ownKeys ? [devices.bindings.keys[player]] : devices.bindings.keys;
+  const stick = pad && pad.connected ? stickDirections(pad.axes[0] ?? 0, pad.axes[1] ?? 0) : {};
+  ACTIONS.forEach(action => {
+    input[action] =
+      layouts.some(keys => keys[action].some(code => devices.held.has(code))) ||
+      (!!pad && pad.connected && devices.bindings.pad[action].some(b => !!pad.buttons[b]?.pressed)) ||
+      !!stick[action];
+  });
+  return input;
+};
+
+// Button-wise OR, e.g. touch controls on top of a player's other devices.
+export const mergeInputs = (a: InputState, b: InputState): InputState => {
+  const input = createInput();
+  ACTIONS.forEach(action => { input[action] = a[action] || b[action]; });
+  return input;
+};
+
+// --- Menus ---
+// Menus read pads through the standard mapping directly, so rebinding can
+// never lock anyone out of them.
+
+export type MenuButton = 'up' | 'down' | 'left' | 'right' | 'accept' | 'back' | 'start';
+
+const MENU_PAD_BUTTONS: [number, MenuButton][] = [
+  [12, 'up'], [13, 'down'], [14, 'left'], [15, 'right'], [0, 'accept'], [1, 'back'], [9, 'start']
+];
+
+// Menu buttons held on any pad, with the left stick as a d-pad.
+export const readMenuButtons = (): Set<MenuButton> => {
+  const held = new Set<MenuButton>();
+  readGamepads().forEach(pad => {
+    if (!pad || !pad.connected) return;
+    MENU_PAD_BUTTONS.forEach(([button, name]) => { if (pad.buttons[button]?.pressed) held.add(name); });
+    const stick = stickDirections(pad.axes[0] ?? 0, pad.axes[1] ?? 0, 0.5);
+    (['up', 'down', 'left', 'right'] as const).forEach(dir => { if (stick[dir]) held.add(dir); });
+  });
+  return held;
+};
@@ -0,0 +1,30 @@
+import { DIFFICULTIES, Difficulty, SUPER_RECHARGES, SuperRecharge } from '../engine/world';
+
+// Display and gameplay options from the pause menu. Volumes live with the
+// audio engine and bindings with the input layer.
+export interface Options {
+  scanlines: boolean;
+  difficulty: Difficulty; // Used for the next run; replays keep their own
+  superRecharge: SuperRecharge; // Likewise
+}
+
+const STORAGE_KEY = 'contra_options';
+
+export const defaultOptions = (): Options => ({ scanlines: true, difficulty: 'normal', superRecharge: 'normal' });
+
+export const loadOptions = (): Options => {
+  const options = defaultOptions();
+  try {
+    const data = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (typeof data?.scanlines === 'boolean') options.scanlines = data.scanlines;
+    if (DIFFICULTIES.includes(data?.difficulty)) options.difficulty = data.difficulty;
+    if (SUPER_RECHARGES.includes(data?.superRecharge)) options.superRecharge = data.superRecharge;
+  } catch (err) {
+    console.error('Ignoring saved options', err);
+  }
+  return options;
+};
+
+export const saveOptions = (options: Options) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+};
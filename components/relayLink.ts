@@ -0,0 +1,33 @@
+import { NetMessage } from '../engine/netplay';
+
+// Browser side of the co-op relay (server/relay.mjs).
+export const DEFAULT_RELAY_URL = 'ws://localhost:8787';
+
+export interface RelayLink {
+  send: (message: NetMessage) => void;
+  close: () => void;
+}
+
+// Joins `room` and hands every relay or peer message to `onMessage`.
+// `onClose` fires once when the connection drops or could not be made.
+export const connectRelay = (url: string, room: string, onMessage: (message: NetMessage) => void, onClose: () => void): RelayLink => {
+  const address = new URL(url);
+  address.searchParams.set('room', room);
+  const socket = new WebSocket(address.toString());
+
+  socket.onmessage = e => {
+    try {
+      onMessage(JSON.parse(e.data));
+    } catch (err) {
+      console.error('Bad relay message', err);
+    }
+  };
+  socket.onclose = () => onClose();
+
+  return {
+    send: message => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    },
+    close: () => socket.close()
+  };
+};
@@ -0,0 +1,882 @@
+import { EntityType, GameObject, InputState, Vector2 } from '../types';
+import { CANVAS_WIDTH, CANVAS_HEIGHT, COLORS, TICK_RATE } from '../constants';
+import { SUPER_MAX, World } from '../engine/world';
+import { currentStage, isLastStage } from '../engine/campaign';
+import { LevelTheme } from '../engine/level';
+import { BARRIER_TICKS, pickupLetter, weaponOf } from '../engine/weapons';
+import { NetSession } from '../engine/netplay';
+import { TouchPad, stickVector } from './touch';
+import { HighScoreEntry } from './highScores';
+import { BOSS_TELEGRAPH_TICKS, BOSS_THRESHOLDS, ROCKET_COST, currentBossAttack, isBossVulnerable } from '../engine/simulation';
+
+// --- RENDERING HELPERS ---
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+const lerpVec = (prev: Vector2 | undefined, cur: Vector2, alpha: number): Vector2 =>
+    prev ? { x: lerp(prev.x, cur.x, alpha), y: lerp(prev.y, cur.y, alpha) } : cur;
+
+// Render copy of an entity placed between its previous and current tick.
+const interpolate = (e: GameObject, alpha: number): GameObject =>
+    e.prevPos ? { ...e, pos: lerpVec(e.prevPos, e.pos, alpha) } : e;
+
+const drawSoldier = (ctx: CanvasRenderingContext2D, e: GameObject) => {
+    ctx.save();
+    ctx.translate(Math.floor(e.pos.x + e.size.x/2), Math.floor(e.pos.y + e.size.y/2));
+    ctx.scale(e.facing, 1);
+    // Legs
+    const walk = Math.sin(e.pos.x * 0.1) * 6;
+    ctx.fillStyle = COLORS.ENEMY_UNIFORM;
+    ctx.fillRect(-8, 6, 6, 16 + walk);
+    ctx.fillRect(2, 6, 6, 16 - walk);
+    // Body
+    ctx.fillStyle = COLORS.ENEMY_UNIFORM;
+    ctx.fillRect(-10, -10, 20, 20);
+    // Head
+    ctx.fillStyle = COLORS.ENEMY_SKIN;
+    ctx.fillRect(-6, -20, 12, 10);
+    // Gun
+    ctx.fillStyle = '#444';
+    ctx.fillRect(0, -2, 20, 6);
+    ctx.restore();
+};
+
+const drawSniper = (ctx: CanvasRenderingContext2D, e: GameObject) => {
+    ctx.save();
+    ctx.translate(Math.floor(e.pos.x + e.size.x/2), Math.floor(e.pos.y + e.size.y/2));
+    ctx.scale(e.facing, 1);
+    // Crouch Body
+    ctx.fillStyle = COLORS.ENEMY_SNIPER;
+    ctx.fillRect(-12, 0, 24, 16);
+    // Head
+    ctx.fillStyle = COLORS.ENEMY_SKIN;
+    ctx.fillRect(-6, -10, 12, 10);
+    // Helmet
+    ctx.fillStyle = '#400';
+    ctx.fillRect(-7, -12, 14, 4);
+    // Rifle
+    ctx.fillStyle = '#222';
+    ctx.fillRect(0, 2, 24, 4);
+    ctx.restore();
+};
+
+// Turrets are clipped at the ground line so they can rise out of it. Sealed
+// and opening turrets show their armored hatch instead of the barrel.
+const drawTurret = (ctx: CanvasRenderingContext2D, e: GameObject, frame: number) => {
+    if (e.state === 'buried') return;
+    const top = e.initialY ?? e.pos.y;
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(e.pos.x - 30, top - 30, e.size.x + 60, e.size.y + 30);
+    ctx.clip();
+
+    ctx.fillStyle = COLORS.TURRET_BASE;
+    ctx.fillRect(e.pos.x, e.pos.y, e.size.x, e.size.y);
+    const cx = e.pos.x + e.size.x/2;
+    const cy = e.pos.y + e.size.y/2;
+
+    if (e.state === 'sealed' || e.state === 'opening') {
+        // Hatch halves slide apart while opening
+        const open = e.state === 'opening' ? Math.min(1, (e.frameTimer || 0) / 40) : 0;
+        const half = (e.size.x / 2) * (1 - open);
+        ctx.fillStyle = '#444';
+        ctx.fillRect(e.pos.x, e.pos.y, half, e.size.y);
+        ctx.fillRect(e.pos.x + e.size.x - half, e.pos.y, half, e.size.y);
+        ctx.fillStyle = frame % 40 < 20 ? '#f83800' : '#880000';
+        ctx.fillRect(cx - 2, cy - 2, 4, 4);
+    } else {
+        ctx.fillStyle = COLORS.TURRET_GUN;
+        ctx.translate(cx, cy);
+        ctx.rotate(e.angle ?? Math.PI);
+        ctx.fillRect(0, -4, 24, 8);
+    }
+    ctx.restore();
+};
+
+// Weapon sensors: an armored pillbox whose shutters slide apart to show a
+// blinking core with the letter of what's inside.
+const drawSensor = (ctx: CanvasRenderingContext2D, e: GameObject, frame: number) => {
+    const cx = e.pos.x + e.size.x/2;
+    const cy = e.pos.y + e.size.y/2;
+    ctx.fillStyle = e.color;
+    ctx.fillRect(e.pos.x, e.pos.y, e.size.x, e.size.y);
+    ctx.fillStyle = '#000';
+    ctx.fillRect(e.pos.x + 4, e.pos.y + 4, e.size.x - 8, e.size.y - 8);
+
+    if (e.state === 'open') {
+        ctx.fillStyle = frame % 20 < 10 ? '#f83800' : '#880000';
+        ctx.beginPath();
+        ctx.arc(cx, cy, 9, 0, Math.PI*2);
+        ctx.fill();
+        ctx.fillStyle = '#fff';
+        ctx.textAlign = 'center';
+        ctx.font = '10px monospace';
+        ctx.fillText(pickupLetter(e), cx, cy + 3);
+    }
+    // Shutters slide apart as the sensor opens and snap shut when it closes
+    const opening = e.state === 'open' ? Math.min(1, (e.frameTimer || 0) / 8) : 0;
+    const half = ((e.size.x - 8) / 2) * (1 - opening);
+    ctx.fillStyle = '#444';
+    ctx.fillRect(e.pos.x + 4, e.pos.y + 4, half, e.size.y - 8);
+    ctx.fillRect(e.pos.x + e.size.x - 4 - half, e.pos.y + 4, half, e.size.y - 8);
+};
+
+// Tanks show damage in three states: intact, smoking below 2/3 health and
+// burning below 1/3.
+const drawTank = (ctx: CanvasRenderingContext2D, e: GameObject, frame: number) => {
+    const hp = e.health / (e.maxHealth || e.health);
+    ctx.save();
+    ctx.translate(Math.floor(e.pos.x), Math.floor(e.pos.y));
+    // Treads
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 32, 64, 8);
+    // Tread details roll as the tank moves
+    ctx.fillStyle = '#333';
+    const treadOffset = Math.floor(e.pos.x) % 16;
+    for(let i=0; i<64; i+=16) {
+        ctx.fillRect(i + treadOffset - 8, 32, 4, 8);
+    }
+    // Body
+    ctx.fillStyle = hp > 1/3 ? COLORS.ENEMY_TANK : '#445522';
+    ctx.fillRect(4, 12, 56, 20);
+    // Turret
+    ctx.fillStyle = '#004400';
+    ctx.fillRect(16, 0, 32, 12);
+    // Barrel and rocket pod
+    ctx.fillStyle = '#000';
+    const facing = e.facing || -1;
+    if (facing === 1) ctx.fillRect(48, 4, 24, 6);
+    else ctx.fillRect(-8, 4, 24, 6);
+    ctx.fillStyle = e.homing ? '#880000' : '#333';
+    ctx.fillRect(facing === 1 ? 44 : 4, 14, 16, 8);
+    // Damage
+    if (hp <= 2/3) {
+        ctx.fillStyle = '#000';
+        ctx.fillRect(12, 18, 6, 4);
+        ctx.fillRect(36, 24, 4, 4);
+        ctx.fillStyle = 'rgba(120,120,120,0.7)';
+        const rise = frame % 30;
+        ctx.beginPath();
+        ctx.arc(28 + Math.sin(frame * 0.2) * 3, -rise, 4 + rise / 6, 0, Math.PI*2);
+        ctx.fill();
+    }
+    if (hp <= 1/3) {
+        ctx.fillStyle = frame % 8 < 4 ? '#ff8800' : '#ffdd00';
+        ctx.fillRect(20, 6 - (frame % 6), 6, 8);
+        ctx.fillRect(40, 8 - ((frame + 3) % 6), 5, 6);
+    }
+    ctx.restore();
+};
+
+const drawRocket = (ctx: CanvasRenderingContext2D, e: GameObject, frame: number) => {
+    ctx.save();
+    ctx.translate(e.pos.x + e.size.x/2, e.pos.y + e.size.y/2);
+    ctx.rotate(Math.atan2(e.vel.y, e.vel.x));
+    ctx.fillStyle = e.color;
+    ctx.fillRect(-e.size.x/2, -e.size.y/2, e.size.x, e.size.y);
+    ctx.fillStyle = e.homing ? '#f83800' : '#888';
+    ctx.fillRect(e.size.x/2 - 4, -e.size.y/2, 4, e.size.y);
+    // Exhaust
+    ctx.fillStyle = frame % 4 < 2 ? '#ffaa00' : '#ff4400';
+    ctx.fillRect(-e.size.x/2 - 6, -2, 6, 4);
+    ctx.restore();
+};
+
+const BOSS_EYE_COLORS = [['#ff0000', '#880000'], ['#ff8800', '#884400'], ['#cc00ff', '#550088']];
+
+// The boss telegraphs each attack: the eye flashes, and sweeps, volleys and
+// runner drops light up the floor line, the guns or the hatch. Armor plates
+// cover the eye whenever it can't be hurt.
+const drawBoss = (ctx: CanvasRenderingContext2D, e: GameObject, frame: number) => {
+    const phase = Math.min(e.bossPhase || 0, BOSS_EYE_COLORS.length - 1);
+    const telegraph = e.state === 'telegraph';
+    const attack = currentBossAttack(e);
+    const flash = telegraph && frame % 8 < 4;
+
+    if (telegraph && attack === 'sweep' && e.aimY !== undefined) {
+        ctx.fillStyle = frame % 8 < 4 ? '#ff00ff' : '#550055';
+        ctx.fillRect(e.pos.x - CANVAS_WIDTH, e.aimY - 12, CANVAS_WIDTH, 2);
+    }
+
+    // Body
+    ctx.fillStyle = e.state === 'transition' && frame % 6 < 3 ? '#fff' : '#555';
+    ctx.fillRect(e.pos.x, e.pos.y, e.size.x, e.size.y);
+    // Eye
+    ctx.fillStyle = flash ? '#fff' : BOSS_EYE_COLORS[phase][frame % 60 < 30 ? 0 : 1];
+    ctx.fillRect(e.pos.x + 40, e.pos.y + 40, 60, 40);
+    if (!isBossVulnerable(e) && e.state !== 'transition') {
+        ctx.fillStyle = '#777';
+        ctx.fillRect(e.pos.x + 36, e.pos.y + 36, 34, 48);
+        ctx.fillRect(e.pos.x + 70, e.pos.y + 36, 34, 48);
+        ctx.fillStyle = '#333';
+        ctx.fillRect(e.pos.x + 69, e.pos.y + 36, 2, 48);
+    } else if (e.state === 'attack' && attack === 'expose') {
+        ctx.strokeStyle = frame % 10 < 5 ? '#fff' : '#cc00ff';
+        ctx.lineWidth = 2;
+        ctx.strokeRect(e.pos.x + 36, e.pos.y + 36, 68, 48);
+    }
+    // Guns
+    ctx.fillStyle = telegraph && attack === 'spread' && flash ? '#ffff00' : '#333';
+    ctx.fillRect(e.pos.x + 10, e.pos.y + 100, 20, 40);
+    ctx.fillRect(e.pos.x + 110, e.pos.y + 100, 20, 40);
+    // Runner hatch
+    ctx.fillStyle = telegraph && attack === 'runners' ? `rgba(255,136,0,${(e.frameTimer || 0) / BOSS_TELEGRAPH_TICKS})` : '#222';
+    ctx.fillRect(e.pos.x + 50, e.pos.y + e.size.y - 20, 40, 20);
+    // Health Bar with phase marks
+    ctx.fillStyle = '#f00';
+    const hp = (e.health / (e.maxHealth || 1));
+    ctx.fillRect(e.pos.x, e.pos.y - 10, e.size.x * hp, 5);
+    ctx.fillStyle = '#fff';
+    BOSS_THRESHOLDS.forEach(t => ctx.fillRect(e.pos.x + e.size.x * t, e.pos.y - 12, 1, 9));
+};
+
+// Cannons point at the player's side of the screen; shields crack as they
+// take damage. Both carry a small health bar.
+const drawBossPart = (ctx: CanvasRenderingContext2D, e: GameObject, frame: number) => {
+    const hp = e.health / (e.maxHealth || e.health);
+    ctx.fillStyle = e.color;
+    ctx.fillRect(e.pos.x, e.pos.y, e.size.x, e.size.y);
+    if (e.part === 'cannon') {
+        ctx.fillStyle = '#222';
+        ctx.fillRect(e.pos.x - 14, e.pos.y + e.size.y/2 - 3, 14, 6);
+        ctx.fillStyle = frame % 20 < 10 ? '#ff4400' : '#aa2200';
+        ctx.fillRect(e.pos.x + e.size.x - 8, e.pos.y + 4, 4, e.size.y - 8);
+    } else {
+        ctx.strokeStyle = '#aaaacc';
+        ctx.lineWidth = 2;
+        ctx.strokeRect(e.pos.x + 1, e.pos.y + 1, e.size.x - 2, e.size.y - 2);
+        ctx.strokeStyle = '#222';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        if (hp <= 2/3) {
+            ctx.moveTo(e.pos.x + e.size.x * 0.3, e.pos.y);
+            ctx.lineTo(e.pos.x + e.size.x * 0.45, e.pos.y + e.size.y * 0.6);
+        }
+        if (hp <= 1/3) {
+            ctx.moveTo(e.pos.x + e.size.x, e.pos.y + e.size.y * 0.3);
+            ctx.lineTo(e.pos.x + e.size.x * 0.5, e.pos.y + e.size.y * 0.5);
+            ctx.lineTo(e.pos.x + e.size.x * 0.6, e.pos.y + e.size.y);
+        }
+        ctx.stroke();
+    }
+    ctx.fillStyle = '#f00';
+    ctx.fillRect(e.pos.x, e.pos.y - 5, e.size.x * hp, 3);
+};
+
+const drawMine = (ctx: CanvasRenderingContext2D, e: GameObject, frame: number) => {
+    ctx.save();
+    ctx.translate(Math.floor(e.pos.x), Math.floor(e.pos.y));
+    ctx.fillStyle = COLORS.ENEMY_MINE;
+    ctx.beginPath();
+    ctx.arc(10, 4, 8, Math.PI, 0); // Semi circle
+    ctx.fill();
+    // Blink light
+    if (frame % 30 < 15) {
+        ctx.fillStyle = '#ff0000';
+        ctx.beginPath();
+        ctx.arc(10, 0, 3, 0, Math.PI*2);
+        ctx.fill();
+    }
+    ctx.restore();
+};
+
+const drawRocketPlayer = (ctx: CanvasRenderingContext2D, p: GameObject, frame: number) => {
+    ctx.save();
+    ctx.translate(Math.floor(p.pos.x + p.size.x/2), Math.floor(p.pos.y + p.size.y/2));
+    // Rocket rotation
+    ctx.rotate(0.2); // Slight tile up
+    // Flame
+    if (frame % 4 < 2) {
+        ctx.fillStyle = '#ffaa00';
+        ctx.beginPath();
+        ctx.moveTo(-20, 0);
+        ctx.lineTo(-40, -10);
+        ctx.lineTo(-40, 10);
+        ctx.fill();
+    }
+    // Body
+    ctx.fillStyle = '#0058f8'; // Blue
+    ctx.fillRect(-20, -10, 40, 20);
+    // Cone
+    ctx.fillStyle = '#ccc';
+    ctx.beginPath();
+    ctx.moveTo(20, -10);
+    ctx.lineTo(40, 0);
+    ctx.lineTo(20, 10);
+    ctx.fill();
+    // Fins
+    ctx.fillStyle = '#f83800';
+    ctx.beginPath();
+    ctx.moveTo(-10, -10); ctx.lineTo(-20, -20); ctx.lineTo(0, -10);
+    ctx.fill();
+    ctx.beginPath();
+    ctx.moveTo(-10, 10); ctx.lineTo(-20, 20); ctx.lineTo(0, 10);
+    ctx.fill();
+    ctx.restore();
+}
+
+// `status` replaces the start prompt while an online game is being set up.
+// `cheat` is set once the Konami code has been entered for the next run.
+export const drawTitle = (ctx: CanvasRenderingContext2D, status?: string, cheat: boolean = false) => {
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+  ctx.textAlign = 'center';
+  ctx.font = '70px "Press Start 2P"';
+  ctx.fillStyle = '#aa0000';
+  ctx.shadowColor = '#fff';
+  ctx.shadowOffsetX = 4;
+  ctx.shadowOffsetY = 4;
+  ctx.fillText('CONTRA', CANVAS_WIDTH/2, 140);
+  ctx.shadowColor = 'transparent';
+  if (cheat) {
+      ctx.font = '12px "Press Start 2P"';
+      ctx.fillStyle = '#f8b800';
+      ctx.fillText('30 LIVES', CANVAS_WIDTH/2, 180);
+  }
+  ctx.font = '16px "Press Start 2P"';
+  ctx.fillStyle = '#ccc';
+  ctx.fillText('CONTROLS', CANVAS_WIDTH/2, 215);
+  ctx.font = '12px "Press Start 2P"';
+  ctx.fillStyle = '#fff';
+  ctx.textAlign = 'left';
+  const instrX = CANVAS_WIDTH/2 - 120;
+  let instrY = 232;
+  ctx.fillText('WASD / ARROWS .. MOVE & AIM', instrX, instrY); instrY += 18;
+  ctx.fillText('SPACE (TAP) .... FLY/JUMP', instrX, instrY); instrY += 18;
+  ctx.fillText('LEFT CLICK ..... FIRE', instrX, instrY); instrY += 18;
+  ctx.fillText('RIGHT CLICK .... SUPER BOMB', instrX, instrY); instrY += 18;
+  ctx.fillText('X KEY .......... ROCKET MODE', instrX, instrY); instrY += 18;
+  ctx.fillText('ESC / P ........ PAUSE MENU', instrX, instrY); instrY += 18;
+  ctx.fillText('F2 ............. SAVE REPLAY', instrX, instrY); instrY += 18;
+  ctx.fillText('L ON TITLE ..... LOAD REPLAY', instrX, instrY); instrY += 18;
+  ctx.fillText('O ON TITLE ..... ONLINE CO-OP', instrX, instrY); instrY += 18;
+  ctx.fillText('C ON TITLE ..... KEYS & SOUND', instrX, instrY); instrY += 18;
+  ctx.fillText('2P: ARROWS . , / OR PAD 2', instrX, instrY);
+  ctx.textAlign = 'center';
+  ctx.fillStyle = '#f8b800';
+  if (status) {
+      ctx.fillText(status, CANVAS_WIDTH/2, 440);
+      ctx.fillText('ESC TO CANCEL', CANVAS_WIDTH/2, 465);
+      return;
+  }
+  ctx.fillText('TAP, CLICK OR PRESS ENTER TO START', CANVAS_WIDTH/2, 440);
+  ctx.fillText('PRESS 2 FOR TWO PLAYERS', CANVAS_WIDTH/2, 465);
+};
+
+const ORDINALS = ['1ST', '2ND', '3RD'];
+
+// Top-10 table, shown on the title screen in turn with the instructions.
+// `highlight` is the index of a fresh entry, which blinks.
+export const drawHighScores = (ctx: CanvasRenderingContext2D, entries: HighScoreEntry[], highlight: number = -1, time: number = 0) => {
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+  ctx.textAlign = 'center';
+  ctx.font = '24px "Press Start 2P"';
+  ctx.fillStyle = '#aa0000';
+  ctx.fillText('HIGH SCORES', CANVAS_WIDTH/2, 70);
+
+  ctx.font = '10px "Press Start 2P"';
+  const row = (y: number, cells: string[]) => {
+      ctx.textAlign = 'left';
+      ctx.fillText(cells[0], 24, y);
+      ctx.fillText(cells[1], 80, y);
+      ctx.textAlign = 'right';
+      ctx.fillText(cells[2], 220, y);
+      ctx.textAlign = 'left';
+      ctx.fillText(cells[3], 240, y);
+      ctx.textAlign = 'right';
+      ctx.fillText(cells[4], CANVAS_WIDTH - 24, y);
+  };
+  ctx.fillStyle = '#ccc';
+  row(115, ['RANK', 'NAME', 'SCORE', 'STAGE', 'WEAPON']);
+  entries.forEach((e, i) => {
+      if (i === highlight && Math.floor(time / 250) % 2 === 1) return;
+      ctx.fillStyle = i === highlight ? '#f8b800' : '#fff';
+      row(145 + i * 26, [
+          ORDINALS[i] ?? `${i + 1}TH`, e.initials, String(e.score),
+          e.stage.toUpperCase(), e.weapon.replace('_', ' ')
+      ]);
+  });
+
+  ctx.textAlign = 'center';
+  ctx.font = '12px "Press Start 2P"';
+  ctx.fillStyle = '#f8b800';
+  ctx.fillText('TAP, CLICK OR PRESS ENTER TO START', CANVAS_WIDTH/2, 440);
+  ctx.fillText('PRESS 2 FOR TWO PLAYERS', CANVAS_WIDTH/2, 465);
+};
+
+// Marks a run that is being played back from a replay file.
+export const drawReplayOverlay = (ctx: CanvasRenderingContext2D, world: World, ended: boolean) => {
+  ctx.save();
+  ctx.textAlign = 'center';
+  ctx.font = '12px "Press Start 2P", monospace';
+  ctx.fillStyle = '#00ff00';
+  if (ended) {
+      ctx.fillStyle = 'rgba(0,0,0,0.6)';
+      ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+      ctx.fillStyle = '#fff';
+      ctx.font = '24px "Press Start 2P"';
+      ctx.fillText('REPLAY END', CANVAS_WIDTH/2, CANVAS_HEIGHT/2);
+      ctx.font = '16px "Press Start 2P"';
+      ctx.fillText('PRESS R FOR TITLE', CANVAS_WIDTH/2, CANVAS_HEIGHT/2 + 50);
+  } else if (world.frame % 60 < 40) {
+      ctx.fillText(`REPLAY  SEED ${world.seed}`, CANVAS_WIDTH/2, 80);
+  }
+  ctx.restore();
+};
+
+// Marks a test run started from the level editor.
+export const drawTestOverlay = (ctx: CanvasRenderingContext2D) => {
+  ctx.save();
+  ctx.textAlign = 'right';
+  ctx.font = '8px "Press Start 2P", monospace';
+  ctx.fillStyle = '#00ff00';
+  ctx.fillText('TEST PLAY  ESC: EDITOR', CANVAS_WIDTH - 10, CANVAS_HEIGHT - 10);
+  ctx.restore();
+};
+
+// Online co-op status: which player this machine is, and anything wrong with the link.
+export const drawNetOverlay = (ctx: CanvasRenderingContext2D, session: NetSession) => {
+  ctx.save();
+  ctx.textAlign = 'center';
+  ctx.font = '10px "Press Start 2P", monospace';
+  ctx.fillStyle = '#00ff00';
+  ctx.fillText(`ONLINE - YOU ARE P${session.local + 1}`, CANVAS_WIDTH/2, 55);
+  let message = '';
+  if (session.peerLeft) message = 'PARTNER LEFT - ESC TO QUIT';
+  else if (session.desyncTick !== null) message = `DESYNC AT TICK ${session.desyncTick}`;
+  else if (session.stalled) message = 'WAITING FOR PARTNER...';
+  if (message) {
+      ctx.font = '14px "Press Start 2P", monospace';
+      ctx.fillStyle = '#ff4040';
+      ctx.fillText(message, CANVAS_WIDTH/2, CANVAS_HEIGHT/2 - 60);
+  }
+  ctx.restore();
+};
+
+// On-screen stick and buttons for touch screens. Held controls light up.
+export const drawTouchControls = (ctx: CanvasRenderingContext2D, pad: TouchPad) => {
+  if (!pad.enabled) return;
+  const { stick, buttons, swap, pause } = pad.layout;
+  const held = new Set([...pad.fingers.values()].map(f => f.control));
+  const circle = (x: number, y: number, r: number) => {
+      ctx.beginPath();
+      ctx.arc(x, y, r, 0, Math.PI * 2);
+  };
+  ctx.save();
+  ctx.lineWidth = 2;
+  ctx.strokeStyle = 'rgba(255,255,255,0.5)';
+  ctx.fillStyle = 'rgba(255,255,255,0.1)';
+  circle(stick.x, stick.y, stick.r); ctx.fill(); ctx.stroke();
+  const knob = stickVector(pad) ?? { x: 0, y: 0 };
+  ctx.fillStyle = held.has('stick') ? 'rgba(248,56,0,0.7)' : 'rgba(255,255,255,0.35)';
+  circle(stick.x + knob.x * stick.r * 0.6, stick.y + knob.y * stick.r * 0.6, stick.r * 0.4); ctx.fill();
+
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  buttons.forEach(b => {
+      ctx.fillStyle = held.has(b.action) ? 'rgba(248,56,0,0.7)' : 'rgba(255,255,255,0.2)';
+      circle(b.circle.x, b.circle.y, b.circle.r); ctx.fill(); ctx.stroke();
+      ctx.fillStyle = '#fff';
+      ctx.font = `${Math.round(b.circle.r * 0.6)}px "Press Start 2P", monospace`;
+      ctx.fillText(b.label, b.circle.x, b.circle.y + 1);
+  });
+  ctx.fillStyle = 'rgba(255,255,255,0.2)';
+  circle(swap.x, swap.y, swap.r); ctx.fill(); ctx.stroke();
+  circle(pause.x, pause.y, pause.r); ctx.fill(); ctx.stroke();
+  ctx.fillStyle = '#fff';
+  ctx.font = '8px "Press Start 2P", monospace';
+  ctx.fillText('<>', swap.x, swap.y + 1);
+  ctx.fillText('||', pause.x, pause.y + 1);
+  ctx.restore();
+};
+
+// Stage intro card, stage clear banner and between-stage results.
+const drawStageCard = (ctx: CanvasRenderingContext2D, world: World) => {
+  const { phase, stageIndex, stageStartScore } = world.campaign;
+  const stage = currentStage(world);
+  ctx.save();
+  ctx.textAlign = 'center';
+  ctx.shadowColor = 'transparent';
+
+  if (phase === 'intro') {
+      ctx.fillStyle = '#000';
+      ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+      ctx.fillStyle = '#fff';
+      ctx.font = '24px "Press Start 2P"';
+      ctx.fillText(`STAGE ${stageIndex + 1}`, CANVAS_WIDTH/2, 180);
+      ctx.fillStyle = '#f8b800';
+      ctx.font = '16px "Press Start 2P"';
+      ctx.fillText(stage.name.toUpperCase(), CANVAS_WIDTH/2, 230);
+      if (stage.intro) {
+          ctx.fillStyle = '#ccc';
+          ctx.font = '10px "Press Start 2P"';
+          ctx.fillText(stage.intro, CANVAS_WIDTH/2, 270);
+      }
+      ctx.fillStyle = '#fff';
+      ctx.font = '12px "Press Start 2P"';
+      world.players.forEach((p, i) => {
+          ctx.fillText(`P${i + 1} REST ${Math.max(0, p.lives || 0)}`, CANVAS_WIDTH/2, 340 + i * 24);
+      });
+  } else if (phase === 'cleared') {
+      ctx.fillStyle = '#fff';
+      ctx.font = '24px "Press Start 2P"';
+      ctx.fillText('STAGE CLEAR', CANVAS_WIDTH/2, CANVAS_HEIGHT/2);
+  } else if (phase === 'results') {
+      ctx.fillStyle = 'rgba(0,0,0,0.8)';
+      ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+      ctx.fillStyle = '#fff';
+      ctx.font = '20px "Press Start 2P"';
+      ctx.fillText(`STAGE ${stageIndex + 1} CLEAR`, CANVAS_WIDTH/2, 140);
+      ctx.font = '12px "Press Start 2P"';
+      ctx.textAlign = 'left';
+      const x = CANVAS_WIDTH/2 - 140;
+      ctx.fillText(`STAGE SCORE .. ${(world.state.score - stageStartScore).toString().padStart(7, ' ')}`, x, 210);
+      ctx.fillText(`TOTAL ........ ${world.state.score.toString().padStart(7, ' ')}`, x, 240);
+      world.players.forEach((p, i) => {
+          const weapon = weaponOf(p.weaponType).name;
+          ctx.fillText(`P${i + 1} REST ${Math.max(0, p.lives || 0).toString().padStart(2, ' ')} ${weapon.padStart(11, ' ')}`, x, 270 + i * 30);
+      });
+      ctx.textAlign = 'center';
+      ctx.fillStyle = '#f8b800';
+      if (world.frame % 60 < 40) {
+          ctx.fillText(isLastStage(world) ? 'PRESS FIRE' : 'PRESS FIRE FOR NEXT STAGE', CANVAS_WIDTH/2, 380);
+      }
+  }
+  ctx.restore();
+};
+
+// Laser beam: a glowing line that fades toward its tail, with a white-hot core.
+const drawLaserBeam = (ctx: CanvasRenderingContext2D, e: GameObject) => {
+  const length = e.beamLength || 0;
+  if (length <= 0) return;
+  const angle = e.angle || 0;
+  const tailX = e.pos.x - Math.cos(angle) * length, tailY = e.pos.y - Math.sin(angle) * length;
+  const glow = ctx.createLinearGradient(tailX, tailY, e.pos.x, e.pos.y);
+  glow.addColorStop(0, `${e.color}00`); // Transparent; colors are #rrggbb
+  glow.addColorStop(0.6, e.color);
+  glow.addColorStop(1, e.color);
+  ctx.save();
+  ctx.lineCap = 'round';
+  ctx.shadowColor = e.color;
+  ctx.shadowBlur = 14;
+  ctx.strokeStyle = glow;
+  ctx.lineWidth = e.size.y;
+  ctx.beginPath();
+  ctx.moveTo(tailX, tailY);
+  ctx.lineTo(e.pos.x, e.pos.y);
+  ctx.stroke();
+  ctx.shadowBlur = 0;
+  ctx.strokeStyle = '#fff';
+  ctx.lineWidth = Math.max(1, e.size.y / 3);
+  ctx.beginPath();
+  ctx.moveTo(tailX + (e.pos.x - tailX) * 0.4, tailY + (e.pos.y - tailY) * 0.4);
+  ctx.lineTo(e.pos.x, e.pos.y);
+  ctx.stroke();
+  ctx.restore();
+};
+
+// Everybody is out: the countdown to take a continue.
+const drawContinue = (ctx: CanvasRenderingContext2D, world: World) => {
+  ctx.save();
+  ctx.shadowColor = 'transparent';
+  ctx.fillStyle = 'rgba(0,0,0,0.8)';
+  ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+  ctx.textAlign = 'center';
+  ctx.fillStyle = '#fff';
+  ctx.font = '24px "Press Start 2P"';
+  ctx.fillText('CONTINUE?', CANVAS_WIDTH/2, 180);
+  ctx.fillStyle = '#f8b800';
+  ctx.font = '48px "Press Start 2P"';
+  ctx.fillText(Math.ceil(world.continueTimer / TICK_RATE).toString(), CANVAS_WIDTH/2, 260);
+  ctx.fillStyle = '#ccc';
+  ctx.font = '12px "Press Start 2P"';
+  const left = world.continuesLeft < 0 ? 'UNLIMITED' : world.continuesLeft.toString();
+  ctx.fillText(`CONTINUES LEFT ${left}`, CANVAS_WIDTH/2, 310);
+  ctx.fillStyle = '#fff';
+  if (world.frame % 60 < 40) ctx.fillText('PRESS FIRE TO CONTINUE', CANVAS_WIDTH/2, 360);
+  ctx.restore();
+};
+
+// What an entity needs from its surroundings to be drawn. Shared by the game
+// and the level editor so both render levels identically.
+export interface EntityView {
+  frame: number;
+  theme: LevelTheme;
+}
+
+export const drawEntity = (ctx: CanvasRenderingContext2D, e: GameObject, view: EntityView) => {
+  if (e.state === 'TEXT_POPUP') {
+      ctx.fillStyle = '#ff0000';
+      ctx.font = '20px monospace';
+      ctx.fillText(e.text || '?', e.pos.x, e.pos.y);
+      return;
+  }
+  
+  if (e.type === EntityType.WATER) {
+      ctx.globalAlpha = 0.8;
+      ctx.fillStyle = COLORS.WATER_DEEP;
+      ctx.fillRect(e.pos.x, e.pos.y, e.size.x, e.size.y);
+      ctx.fillStyle = COLORS.WATER_SURFACE;
+      ctx.fillRect(e.pos.x, e.pos.y, e.size.x, 10);
+      ctx.globalAlpha = 1.0;
+  } else if (e.type === EntityType.ENEMY_TURRET) {
+      drawTurret(ctx, e, view.frame);
+  } else if (e.type === EntityType.WEAPON_SENSOR) {
+      drawSensor(ctx, e, view.frame);
+  } else if (e.type === EntityType.ENEMY_RUNNER) {
+      drawSoldier(ctx, e);
+  } else if (e.type === EntityType.ENEMY_SNIPER) {
+      drawSniper(ctx, e);
+  } else if (e.type === EntityType.ENEMY_TANK) {
+      drawTank(ctx, e, view.frame);
+  } else if (e.type === EntityType.ENEMY_MINE) {
+      drawMine(ctx, e, view.frame);
+  } else if (e.type === EntityType.ENEMY_BOSS) {
+      drawBoss(ctx, e, view.frame);
+  } else if (e.type === EntityType.ENEMY_BOSS_PART) {
+      drawBossPart(ctx, e, view.frame);
+  } else if (e.type === EntityType.BULLET_ROCKET) {
+      drawRocket(ctx, e, view.frame);
+  } else if (e.type === EntityType.ENEMY_FLYING) {
+      ctx.fillStyle = e.color;
+      ctx.beginPath();
+      ctx.ellipse(e.pos.x + e.size.x/2, e.pos.y + e.size.y/2, e.size.x/2, e.size.y/4, 0, 0, Math.PI*2);
+      ctx.fill();
+      // Wings flap with the frame counter
+      ctx.fillStyle = '#fff';
+      const flap = Math.floor(view.frame / 6) % 2 === 0 ? 4 : 8;
+      ctx.fillRect(e.pos.x + e.size.x/2 - 3, e.pos.y + e.size.y/2 - flap, 6, flap * 2);
+      // Thruster trails behind the direction of flight
+      ctx.fillStyle = '#ffaa00';
+      ctx.beginPath();
+      ctx.arc(e.facing === 1 ? e.pos.x : e.pos.x + e.size.x, e.pos.y + e.size.y/2, 4, 0, Math.PI*2);
+      ctx.fill();
+  } else if (e.type === EntityType.POWERUP_CAPSULE) {
+      ctx.fillStyle = '#aa0000';
+      ctx.beginPath();
+      ctx.ellipse(e.pos.x + e.size.x/2, e.pos.y + e.size.y/2, e.size.x/2, e.size.y/2, 0, 0, Math.PI*2);
+      ctx.fill();
+      ctx.fillStyle = '#fff';
+      ctx.textAlign = 'center';
+      ctx.font = '10px monospace';
+      ctx.fillText(pickupLetter(e), e.pos.x + e.size.x/2, e.pos.y + e.size.y/2 + 3);
+  } else if (e.type === EntityType.BULLET_PLAYER) {
+      ctx.fillStyle = e.color;
+      if (e.beamLength !== undefined) {
+         drawLaserBeam(ctx, e);
+      } else if (e.spin !== undefined) {
+         // Fireball with a hot core
+         const cx = e.pos.x + e.size.x/2, cy = e.pos.y + e.size.y/2;
+         ctx.beginPath();
+         ctx.arc(cx, cy, e.size.x/2, 0, Math.PI*2);
+         ctx.fill();
+         ctx.fillStyle = '#ffdd00';
+         ctx.beginPath();
+         ctx.arc(cx, cy, e.size.x/4, 0, Math.PI*2);
+         ctx.fill();
+      } else if (e.piercing) {
+         ctx.save();
+         ctx.translate(e.pos.x, e.pos.y);
+         ctx.rotate(e.angle || 0);
+         ctx.fillRect(0, -2, e.size.x, e.size.y);
+         ctx.restore();
+      } else {
+         ctx.fillRect(e.pos.x, e.pos.y, e.size.x, e.size.y);
+      }
+  } else if (e.type === EntityType.BULLET_ENEMY) {
+      if (e.state === 'shell') {
+          // Tank shell
+          ctx.fillStyle = '#333';
+          ctx.beginPath();
+          ctx.arc(e.pos.x + e.size.x/2, e.pos.y + e.size.y/2, e.size.x/2, 0, Math.PI*2);
+          ctx.fill();
+          ctx.fillStyle = e.color;
+          ctx.fillRect(e.pos.x + e.size.x/2 - 1, e.pos.y + e.size.y/2 - 1, 2, 2);
+      } else {
+          ctx.fillStyle = e.color;
+          ctx.fillRect(e.pos.x, e.pos.y, e.size.x, e.size.y);
+      }
+  } else if (e.type === EntityType.PARTICLE) {
+      ctx.fillStyle = e.color;
+      ctx.beginPath();
+      ctx.arc(e.pos.x, e.pos.y, e.size.x, 0, Math.PI*2);
+      ctx.fill();
+  } else if (e.type === EntityType.PLATFORM || e.type === EntityType.BRIDGE) {
+      // Platforms - Mario/Contra Style Solid Blocks
+      if (!e.isBridge) {
+          // Solid fill
+          ctx.fillStyle = e.color;
+          ctx.fillRect(e.pos.x, e.pos.y, e.size.x, e.size.y);
+          
+          // Texture Pattern
+          ctx.fillStyle = '#000000';
+          ctx.globalAlpha = 0.2;
+          ctx.strokeRect(e.pos.x, e.pos.y, e.size.x, e.size.y);
+          for(let i=0; i<e.size.x; i+=40) {
+              for(let j=0; j<e.size.y; j+=40) {
+                 ctx.fillRect(e.pos.x + i, e.pos.y + j, 30, 30);
+              }
+          }
+          ctx.globalAlpha = 1.0;
+          
+          // Grass Top
+          ctx.fillStyle = view.theme.trim;
+          ctx.fillRect(e.pos.x, e.pos.y, e.size.x, 6);
+          
+      } else {
+          // Bridge
+          ctx.fillStyle = '#fc9838';
+          ctx.fillRect(e.pos.x, e.pos.y, e.size.x, e.size.y);
+          ctx.fillStyle = '#000';
+          for(let k=0; k<e.size.x; k+=16) {
+              ctx.fillRect(e.pos.x + k, e.pos.y, 2, e.size.y);
+          }
+      }
+  }
+};
+
+// Commando with the gun pointing where the player is aiming.
+const drawPlayer = (ctx: CanvasRenderingContext2D, p: GameObject, input: InputState, frame: number) => {
+  if (!p.active) return;
+  if ((p.rocketTimer || 0) > 0) {
+      drawRocketPlayer(ctx, p, frame);
+  } else {
+      if ((p.invincibility || 0) > 0 && Math.floor(Date.now() / 50) % 2 === 0) {
+         // Blink
+      } else {
+          ctx.save();
+          ctx.translate(Math.floor(p.pos.x + p.size.x/2), Math.floor(p.pos.y + p.size.y/2));
+          if (p.state === 'jump') ctx.rotate(p.angle || 0);
+          ctx.scale(p.facing, 1);
+          ctx.fillStyle = p.color; ctx.fillRect(-p.size.x/2, 0, p.size.x, p.size.y/2); 
+          ctx.fillStyle = COLORS.PLAYER_SKIN; ctx.fillRect(-p.size.x/2, -p.size.y/2, p.size.x, p.size.y/2); 
+          ctx.fillStyle = COLORS.PLAYER_BANDANA; ctx.fillRect(-p.size.x/2, -p.size.y/2, p.size.x, 6); 
+          ctx.fillStyle = '#ccc';
+          let gunAngle = 0;
+          if (input.up) {
+              if (input.right || input.left) gunAngle = -Math.PI/4;
+              else gunAngle = -Math.PI/2;
+          } else if (input.down && !p.grounded) {
+               if (input.right || input.left) gunAngle = Math.PI/4;
+               else gunAngle = Math.PI/2;
+          }
+          ctx.rotate(gunAngle);
+          ctx.fillRect(0, -4, 34, 6);
+          ctx.restore();
+      }
+  }
+
+  // Barrier aura, flashing faster in its last two seconds
+  const barrier = p.barrier || 0;
+  if (barrier > 0) {
+      const rate = barrier < BARRIER_TICKS / 5 ? 4 : 8;
+      ctx.save();
+      ctx.strokeStyle = Math.floor(frame / rate) % 2 === 0 ? '#00ffff' : '#ffffff';
+      ctx.shadowColor = '#00ffff';
+      ctx.shadowBlur = 12;
+      ctx.lineWidth = 3;
+      ctx.globalAlpha = 0.8;
+      ctx.beginPath();
+      ctx.ellipse(p.pos.x + p.size.x/2, p.pos.y + p.size.y/2, p.size.x/2 + 12, p.size.y/2 + 8, 0, 0, Math.PI*2);
+      ctx.stroke();
+      ctx.restore();
+  }
+};
+
+// Super meter under a player's lives. The notch marks the cost of rocket
+// mode; a full meter (bomb ready) flashes.
+const SUPER_BAR_WIDTH = 100;
+const drawSuperMeter = (ctx: CanvasRenderingContext2D, p: GameObject, x: number, y: number, frame: number) => {
+    const meter = p.superMeter || 0;
+    ctx.save();
+    ctx.fillStyle = '#222';
+    ctx.fillRect(x, y, SUPER_BAR_WIDTH, 8);
+    ctx.shadowColor = 'transparent';
+    if (meter >= SUPER_MAX) ctx.fillStyle = frame % 20 < 10 ? '#f8b800' : '#ffffff';
+    else ctx.fillStyle = meter >= ROCKET_COST ? '#00ffff' : '#3c7ca8';
+    ctx.fillRect(x, y, SUPER_BAR_WIDTH * meter / SUPER_MAX, 8);
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(x + SUPER_BAR_WIDTH * ROCKET_COST / SUPER_MAX - 1, y, 2, 8);
+    ctx.restore();
+};
+
+// Draws one frame of the running game: scene, players and HUD.
+// `alpha` (0..1) is how far the render time lies between the last two ticks.
+export const drawWorld = (ctx: CanvasRenderingContext2D, world: World, alpha: number = 1) => {
+  const camera = lerpVec(world.prevCamera, world.camera, alpha);
+  const view: EntityView = { frame: world.frame, theme: world.theme };
+
+  // 1. Clear
+  ctx.fillStyle = COLORS.SKY;
+  ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+  ctx.save();
+  ctx.translate(-Math.floor(camera.x), 0);
+
+  // 2. Draw Environment & Enemies
+  world.entities.forEach(current => {
+      if (!current.active) return;
+      drawEntity(ctx, interpolate(current, alpha), view);
+  });
+
+  // 3. Draw Players
+  world.players.forEach((player, i) => drawPlayer(ctx, interpolate(player, alpha), world.prevInputs[i], world.frame));
+
+  ctx.restore();
+
+  // 4. HUD
+  ctx.fillStyle = COLORS.HUD_TEXT;
+  ctx.textAlign = 'left';
+  ctx.font = '16px "Press Start 2P", monospace';
+  ctx.shadowColor = '#000';
+  ctx.shadowOffsetX = 2;
+  ctx.shadowOffsetY = 2;
+  // P1 on the left; P2 on the right, with the high score moving to the middle
+  const coop = world.players.length > 1;
+  world.players.forEach((p, i) => {
+      const right = i === 1;
+      const x = right ? CANVAS_WIDTH - 20 : 20;
+      ctx.fillStyle = COLORS.HUD_TEXT;
+      ctx.textAlign = right ? 'right' : 'left';
+      ctx.fillText(`P${i + 1} ${(p.score || 0).toString().padStart(6, '0')}`, x, 30);
+      const letters = weaponOf(p.weaponType).letter + 'R'.repeat(p.rapid || 0);
+      ctx.fillText((p.lives || 0) < 0 ? 'OUT' : `REST ${p.lives}${letters ? ` ${letters}` : ''}`, x, 55);
+      if ((p.lives || 0) >= 0) drawSuperMeter(ctx, p, right ? x - SUPER_BAR_WIDTH : x, 62, world.frame);
+      if ((p.rocketTimer || 0) > 0) {
+          ctx.fillStyle = '#00ffff';
+          ctx.fillText(`ROCKET: ${(p.rocketTimer!/TICK_RATE).toFixed(1)}`, x, 105);
+      }
+  });
+  ctx.fillStyle = COLORS.HUD_TEXT;
+  ctx.textAlign = 'left';
+  ctx.fillText(`STAGE ${world.campaign.stageIndex + 1}`, 20, 80);
+  ctx.textAlign = coop ? 'center' : 'right';
+  ctx.fillText(`HI ${world.state.highScore}`, coop ? CANVAS_WIDTH/2 : CANVAS_WIDTH - 20, 30);
+
+  if (world.state.gameWon) {
+      ctx.fillStyle = 'rgba(0,0,0,0.6)';
+      ctx.fillRect(0,0,CANVAS_WIDTH,CANVAS_HEIGHT);
+      ctx.fillStyle = '#fff';
+      ctx.textAlign = 'center';
+      ctx.font = '24px "Press Start 2P"';
+      ctx.fillText('MISSION ACCOMPLISHED', CANVAS_WIDTH/2, CANVAS_HEIGHT/2);
+      ctx.font = '16px "Press Start 2P"';
+      ctx.fillText(`FINAL SCORE ${world.state.score}`, CANVAS_WIDTH/2, CANVAS_HEIGHT/2 + 50);
+      ctx.fillText('PRESS R TO RESTART', CANVAS_WIDTH/2, CANVAS_HEIGHT/2 + 80);
+  } else if (world.state.gameOver) {
+      ctx.fillStyle = 'rgba(0,0,0,0.7)';
+      ctx.fillRect(0,0,CANVAS_WIDTH,CANVAS_HEIGHT);
+      ctx.fillStyle = '#fff';
+      ctx.textAlign = 'center';
+      ctx.font = '24px "Press Start 2P"';
+      ctx.fillText('GAME OVER', CANVAS_WIDTH/2, CANVAS_HEIGHT/2);
+      ctx.font = '16px "Press Start 2P"';
+      ctx.fillText(`FINAL SCORE ${world.state.score}`, CANVAS_WIDTH/2, CANVAS_HEIGHT/2 + 50);
+      ctx.fillText('PRESS R TO RESTART', CANVAS_WIDTH/2, CANVAS_HEIGHT/2 + 80);
+  } else if (world.continueTimer > 0) {
+      drawContinue(ctx, world);
+  } else {
+      drawStageCard(ctx, world);
+  }
+};
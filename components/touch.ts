@@ -0,0 +1,127 @@
+import { InputState } from '../types';
+import { CANVAS_WIDTH, CANVAS_HEIGHT } from '../constants';
+import { createInput } from '../engine/world';
+import { Action, stickDirections } from './input';
+
+// --- TOUCH CONTROLS ---
+// A virtual joystick and buttons drawn over the canvas, in canvas pixels.
+// Every finger is tracked on its own, so moving, jumping and firing can all be
+// held at once. The right-handed layout has the stick on the left; the
+// left-handed one mirrors it.
+
+export interface Circle {
+  x: number;
+  y: number;
+  r: number;
+}
+
+export interface TouchButton {
+  action: Action;
+  label: string;
+  circle: Circle;
+}
+
+export interface TouchLayout {
+  stick: Circle;
+  buttons: TouchButton[];
+  swap: Circle;  // Flips the layout for the other hand
+  pause: Circle;
+}
+
+const STICK_DEAD_ZONE = 0.3; // Fraction of the stick radius
+
+export const touchLayout = (leftHanded: boolean): TouchLayout => {
+  const x = (v: number) => (leftHanded ? CANVAS_WIDTH - v : v);
+  return {
+    stick: { x: x(90), y: 385, r: 60 },
+    buttons: [
+      { action: 'shoot', label: 'B', circle: { x: x(455), y: 400, r: 30 } },
+      { action: 'jump', label: 'A', circle: { x: x(385), y: 430, r: 30 } },
+      { action: 'rocket', label: 'R', circle: { x: x(455), y: 325, r: 22 } },
+      { action: 'altFire', label: 'SB', circle: { x: x(390), y: 355, r: 22 } }
+    ],
+    swap: { x: CANVAS_WIDTH / 2, y: 458, r: 14 },
+    pause: { x: CANVAS_WIDTH / 2, y: 424, r: 14 }
+  };
+};
+
+const inside = (c: Circle, x: number, y: number, slack: number = 1.2) =>
+  Math.hypot(x - c.x, y - c.y) <= c.r * slack;
+
+type Control = 'stick' | Action;
+
+export interface TouchPad {
+  enabled: boolean; // Set by the first touch, so desktop players never see the overlay
+  layout: TouchLayout;
+  fingers: Map<number, { control: Control; x: number; y: number }>;
+}
+
+export const createTouchPad = (leftHanded: boolean): TouchPad => ({
+  enabled: false,
+  layout: touchLayout(leftHanded),
+  fingers: new Map()
+});
+
+export const setLeftHanded = (pad: TouchPad, leftHanded: boolean) => {
+  pad.layout = touchLayout(leftHanded);
+  pad.fingers.clear();
+};
+
+const buttonAt = (pad: TouchPad, x: number, y: number): Action | null =>
+  pad.layout.buttons.find(b => inside(b.circle, x, y))?.action ?? null;
+
+// A new finger. Returns what it landed on: 'swap', 'pause', a control, or null.
+export const touchStart = (pad: TouchPad, id: number, x: number, y: number): 'swap' | 'pause' | Control | null => {
+  pad.enabled = true;
+  if (inside(pad.layout.swap, x, y, 1)) return 'swap';
+  if (inside(pad.layout.pause, x, y, 1)) return 'pause';
+  const control: Control | null = inside(pad.layout.stick, x, y, 1.5) ? 'stick' : buttonAt(pad, x, y);
+  if (control) pad.fingers.set(id, { control, x, y });
+  return control;
+};
+
+// The stick keeps its finger wherever it goes; a finger on the buttons can
+// slide from one button to another.
+export const touchMove = (pad: TouchPad, id: number, x: number, y: number) => {
+  const finger = pad.fingers.get(id);
+  if (!finger) return;
+  finger.x = x;
+  finger.y = y;
+  if (finger.control !== 'stick') finger.control = buttonAt(pad, x, y) ?? finger.control;
+};
+
+export const touchEnd = (pad: TouchPad, id: number) => {
+  pad.fingers.delete(id);
+};
+
+// Stick deflection (-1..1 per axis, clamped to the rim), or null when untouched.
+export const stickVector = (pad: TouchPad): { x: number; y: number } | null => {
+  for (const finger of pad.fingers.values()) {
+    if (finger.control !== 'stick') continue;
+    const { stick } = pad.layout;
+    const dx = (finger.x - stick.x) / stick.r;
+    const dy = (finger.y - stick.y) / stick.r;
+    const length = Math.max(1, Math.hypot(dx, dy));
+    return { x: dx / length, y: dy / length };
+  }
+  return null;
+};
+
+export const touchInput = (pad: TouchPad): InputState => {
+  const input = createInput();
+  const stick = stickVector(pad);
+  if (stick) Object.assign(input, stickDirections(stick.x, stick.y, STICK_DEAD_ZONE));
+  pad.fingers.forEach(finger => {
+    if (finger.control !== 'stick') input[finger.control] = true;
+  });
+  return input;
+};
+
+// Client coordinates to canvas pixels for a canvas drawn with `object-contain`.
+export const toCanvasPoint = (canvas: HTMLCanvasElement, clientX: number, clientY: number) => {
+  const rect = canvas.getBoundingClientRect();
+  const scale = Math.min(rect.width / CANVAS_WIDTH, rect.height / CANVAS_HEIGHT);
+  const left = rect.left + (rect.width - CANVAS_WIDTH * scale) / 2;
+  const top = rect.top + (rect.height - CANVAS_HEIGHT * scale) / 2;
+  return { x: (clientX - left) / scale, y: (clientY - top) / scale };
+};
@@ -9,17 +9,25 @@ export const BULLET_SPEED = 10;
 export const ENEMY_SPEED = 2;
 export const SPAWN_RATE = 100; 
 
+// Simulation rate. All frame-based timers (cooldowns, SPAWN_RATE, rocket and
+// invincibility durations) count ticks at this rate, independent of the display.
+export const TICK_RATE = 60;
+export const TICK_MS = 1000 / TICK_RATE;
+export const MAX_FRAME_MS = 250; // Clamp after tab switches so we don't spiral
+
 // NES Contra Palette Approximation
 export const COLORS = {
   // Player
   PLAYER_SKIN: '#f8b800',
   PLAYER_PANTS: '#0058f8', // Blue pants P1
+  PLAYER2_PANTS: '#d82800', // Red pants P2
   PLAYER_BANDANA: '#f83800',
   
   // Environment
   SKY: '#000000',
   GROUND_TOP: '#6888fc', // Jungle metal/grass mix
   GROUND_SIDE: '#005800',
+  GROUND_TRIM: '#88cc88', // Grass along platform tops
   WATER_SURFACE: '#38b8f8',
   WATER_DEEP: '#0000bc',
   BRIDGE: '#fc9838',
@@ -34,11 +42,13 @@ export const COLORS = {
   ENEMY_MINE: '#555555',
   TURRET_BASE: '#7c7c7c',
   TURRET_GUN: '#bcbcbc',
+  SENSOR_SHELL: '#5c5c7c', // Pillbox weapon sensor
   
   // Projectiles
   BULLET_PLAYER: '#ffffff', // White/Orange pulse
   BULLET_LASER: '#ff00ff',  // Electric Blue/Purple
   BULLET_MG: '#ffff00',     // Yellow
+  BULLET_FIRE: '#ff5a00',   // Orange fireball
   BULLET_ENEMY: '#f83800',  // Red glow
   BULLET_ROCKET: '#ffffff',
   
@@ -57,7 +67,9 @@ export const SIZES = {
   ENEMY_MINE: { x: 20, y: 8 },
   BULLET: { x: 6, y: 6 },
   SPREAD_BULLET: { x: 8, y: 8 },
-  LASER_BULLET: { x: 24, y: 6 },
+  LASER_BEAM: { x: 96, y: 6 }, // Full length x thickness
+  FIRE_BULLET: { x: 10, y: 10 },
   ROCKET: { x: 16, y: 8 },
-  POWERUP: { x: 24, y: 16 }
+  POWERUP: { x: 24, y: 16 },
+  WEAPON_SENSOR: { x: 32, y: 32 }
 };
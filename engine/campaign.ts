@@ -0,0 +1,147 @@
+import { InputState } from '../types';
+import { CANVAS_WIDTH, COLORS } from '../constants';
+import { CAMPAIGN } from '../levels';
+import { LevelDefinition, getLevel, loadLevel } from './level';
+import type { World } from './world';
+
+// --- CAMPAIGN ---
+// A run is an ordered list of stages. Each stage goes
+//   intro card -> playing -> cleared (boss explodes) -> results
+// and the ending is only shown after the last stage's results. Score, lives
+// and weapon carry over between stages. Phase changes happen inside step(),
+// so they are part of the deterministic simulation and of replays.
+
+export type StagePhase = 'intro' | 'playing' | 'cleared' | 'results' | 'ending';
+
+export interface CampaignState {
+  stages: LevelDefinition[];
+  stageIndex: number;
+  phase: StagePhase;
+  timer: number;           // Ticks left in the current intro/cleared/results phase
+  stageStartScore: number; // Score when the stage began, for the results screen
+}
+
+const INTRO_TICKS = 180;
+const CLEARED_TICKS = 180;
+const RESULTS_TICKS = 420;
+const MIN_SKIP_TICKS = 30; // Cards can be skipped with jump/fire after this long
+
+export const campaignStages = (): LevelDefinition[] => CAMPAIGN.map(getLevel);
+
+export const createCampaign = (stages: LevelDefinition[]): CampaignState => {
+  if (stages.length === 0) throw new Error('A campaign needs at least one stage');
+  return { stages, stageIndex: 0, phase: 'intro', timer: INTRO_TICKS, stageStartScore: 0 };
+};
+
+export const currentStage = (world: World) => world.campaign.stages[world.campaign.stageIndex];
+
+export const isLastStage = (world: World) => world.campaign.stageIndex === world.campaign.stages.length - 1;
+
+// The track for the zone the leading player is in, or for the last zone
+// before it that names one. Only the intro card and the stage itself have
+// music; it stops for the continue countdown and the game over.
+export const currentMusic = (world: World): string | null => {
+  const phase = world.campaign.phase;
+  if ((phase !== 'intro' && phase !== 'playing') || world.state.gameOver || world.continueTimer > 0) return null;
+  const x = Math.max(...world.players.map(p => p.pos.x));
+  let music: string | null = null;
+  let from = -Infinity;
+  currentStage(world).zones.forEach(zone => {
+    if (zone.music && zone.x <= x && zone.x >= from) {
+      music = zone.music;
+      from = zone.x;
+    }
+  });
+  return music;
+};
+
+// Loads stage `index` into the world. Score, lives and weapon are kept.
+export const enterStage = (world: World, index: number) => {
+  const def = world.campaign.stages[index];
+  const loaded = loadLevel(def);
+
+  world.levelId = loaded.id;
+  world.events = loaded.events;
+  world.spawns = loaded.spawns;
+  world.entities = loaded.entities;
+  world.theme = {
+    ground: def.theme?.ground ?? COLORS.GROUND_TOP,
+    trim: def.theme?.trim ?? COLORS.GROUND_TRIM
+  };
+  world.camera = { x: 0, y: 0 };
+  world.prevCamera = { x: 0, y: 0 };
+
+  // Players waiting to respawn come back at the start line; players who are
+  // out of lives stay out until the continue.
+  world.players.forEach((player, i) => {
+    player.active = (player.lives ?? 0) >= 0;
+    player.health = 1;
+    player.pos = { x: 100 - i * 40, y: 100 };
+    player.prevPos = { ...player.pos };
+    player.vel = { x: 0, y: 0 };
+    player.invincibility = 0;
+    player.cooldown = 0;
+    player.rocketTimer = 0;
+    player.respawnTimer = 0;
+  });
+
+  world.campaign.stageIndex = index;
+  world.campaign.phase = 'intro';
+  world.campaign.timer = INTRO_TICKS;
+  world.campaign.stageStartScore = world.state.score;
+};
+
+// Editor "play from here": skips the intro and drops the players in at level x.
+export const startAt = (world: World, x: number) => {
+  world.campaign.phase = 'playing';
+  world.players.forEach((player, i) => {
+    player.pos = { x: x - i * 40, y: 100 };
+    player.prevPos = { ...player.pos };
+  });
+  world.camera = { x: Math.max(0, x - CANVAS_WIDTH / 3), y: 0 };
+  world.prevCamera = { ...world.camera };
+};
+
+// Called when the stage boss is destroyed.
+export const stageCleared = (world: World) => {
+  world.campaign.phase = 'cleared';
+  world.campaign.timer = CLEARED_TICKS;
+};
+
+// Runs the between-stage phases. Returns true when gameplay should be
+// simulated this tick. Either player can skip a card.
+export const updateCampaign = (world: World, inputs: InputState[], onCelebrate: () => void): boolean => {
+  const campaign = world.campaign;
+  if (campaign.phase === 'playing') return true;
+  if (campaign.phase === 'ending') return false;
+
+  const pressed = inputs.some((input, i) => {
+    const prev = world.prevInputs[i];
+    return (input.jump && !prev.jump) || (input.shoot && !prev.shoot);
+  });
+  const elapsed = (campaign.phase === 'intro' ? INTRO_TICKS : campaign.phase === 'results' ? RESULTS_TICKS : CLEARED_TICKS) - campaign.timer;
+  const skip = pressed && elapsed >= MIN_SKIP_TICKS && campaign.phase !== 'cleared';
+
+  campaign.timer--;
+  if (campaign.phase === 'cleared' && campaign.timer % 10 === 0) onCelebrate();
+  if (campaign.timer > 0 && !skip) return false;
+
+  switch (campaign.phase) {
+    case 'intro':
+      campaign.phase = 'playing';
+      return true;
+    case 'cleared':
+      campaign.phase = 'results';
+      campaign.timer = RESULTS_TICKS;
+      return false;
+    case 'results':
+      if (isLastStage(world)) {
+        campaign.phase = 'ending';
+        world.state.gameWon = true;
+      } else {
+        enterStage(world, campaign.stageIndex + 1);
+      }
+      return false;
+  }
+  return false;
+};
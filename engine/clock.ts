@@ -0,0 +1,29 @@
+import { MAX_FRAME_MS, TICK_MS } from '../constants';
+
+// Fixed-timestep accumulator. Real time is fed in per rendered frame and
+// converted into a whole number of simulation ticks, so game speed does not
+// depend on the display refresh rate.
+export interface FixedClock {
+  lastTime: number | null;
+  accumulator: number;
+}
+
+export const createClock = (): FixedClock => ({ lastTime: null, accumulator: 0 });
+
+// Returns how many ticks to run for a frame rendered at `now` (ms).
+export const advanceClock = (clock: FixedClock, now: number): number => {
+  if (clock.lastTime === null) clock.lastTime = now;
+  const elapsed = Math.min(Math.max(now - clock.lastTime, 0), MAX_FRAME_MS);
+  clock.lastTime = now;
+  clock.accumulator += elapsed;
+
+  let ticks = 0;
+  while (clock.accumulator >= TICK_MS) {
+    clock.accumulator -= TICK_MS;
+    ticks++;
+  }
+  return ticks;
+};
+
+// How far (0..1) the current render time lies between the last tick and the next.
+export const clockAlpha = (clock: FixedClock) => clock.accumulator / TICK_MS;
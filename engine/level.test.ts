@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { LevelValidationError, getLevel, validateLevel } from './level';
+
+// A fresh, editable copy of a shipped level.
+const jungle = () => JSON.parse(JSON.stringify(getLevel('jungle-run')));
+
+const errorsOf = (data: unknown): string[] => {
+  try {
+    validateLevel(data, 'test.json');
+  } catch (e) {
+    if (e instanceof LevelValidationError) return e.errors;
+    throw e;
+  }
+  return [];
+};
+
+describe('validateLevel', () => {
+  it('accepts the shipped levels', () => {
+    expect(errorsOf(jungle())).toEqual([]);
+    expect(errorsOf(getLevel('alien-base'))).toEqual([]);
+  });
+
+  it('lists every problem with its JSON path', () => {
+    const level = jungle();
+    level.floorY = -1;
+    level.zones[1].enemies[0].type = 'dragon';
+    level.zones[1].powerups[0].weapon = 'NORMAL';
+    delete level.zones[2].name;
+    expect(errorsOf(level)).toEqual([
+      'level.floorY: must be at least 0, got -1',
+      'level.zones[1].enemies[0].type: expected one of "turret", "sniper", "tank", got "dragon"',
+      'level.zones[1].powerups[0].weapon: expected one of "SPREAD", "LASER", "MACHINE_GUN", "FIRE", "RAPID", "BARRIER", "FALCON", got "NORMAL"',
+      'level.zones[2].name: expected a non-empty string, got undefined'
+    ]);
+  });
+
+  it('requires at least one zone', () => {
+    expect(errorsOf({ ...jungle(), zones: [] })).toEqual(['level.zones: expected at least one zone']);
+  });
+
+  it('rejects input that is not a level at all', () => {
+    expect(() => validateLevel('jungle-run', 'test.json')).toThrow('Invalid level test.json:\n  root: expected an object');
+  });
+});
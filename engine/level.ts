@@ -0,0 +1,498 @@
+import { EntityType, GameObject } from '../types';
+import { CANVAS_HEIGHT, COLORS, SIZES } from '../constants';
+import { LEVEL_FILES } from '../levels';
+import { TRACK_IDS } from '../levels/music';
+import { PICKUP_NAMES, PickupName, pickupContents } from './weapons';
+
+// --- LEVEL FORMAT ---
+// Levels are versioned JSON files in /levels (see levels/README.md). Zone
+// contents are placed relative to the zone's `x`; events and spawn rules use
+// absolute level x. A `y` on ground, bridges, enemies and hazards is the
+// surface they stand on and defaults to the level's `floorY`.
+
+export const LEVEL_FORMAT_VERSION = 1;
+
+export type TerrainDef =
+  | { type: 'ground'; x: number; width: number; y?: number }
+  | { type: 'platform'; x: number; y: number; width: number }
+  | { type: 'bridge'; x: number; width: number; y?: number }
+  | { type: 'water'; x: number; y?: number; width: number; height: number };
+
+export interface HazardDef {
+  type: 'mine';
+  x: number;
+  y?: number;
+}
+
+export type TurretMode = 'open' | 'rise' | 'sealed';
+export type TankBehavior = 'patrol' | 'advance';
+export type RocketKind = 'straight' | 'homing';
+
+export interface EnemyDef {
+  type: 'turret' | 'sniper' | 'tank';
+  x: number;
+  y?: number;
+  // Turrets only
+  directions?: 8 | 12; // Aim steps around the circle, default 12
+  mode?: TurretMode;   // 'rise' hides in the ground, 'sealed' stays shut until triggered
+  trigger?: number;    // Player distance that wakes a 'rise' or 'sealed' turret
+  // Tanks only
+  behavior?: TankBehavior; // 'patrol' (default) drives back and forth, 'advance' closes in
+  rockets?: RocketKind;    // 'straight' (default) or 'homing'
+}
+
+export interface PowerupDef {
+  x: number;
+  y: number;
+  weapon: PickupName; // A weapon or an item
+}
+
+// Pillbox weapon sensor standing on `y` (default floorY). It opens and
+// closes on a cycle, and when destroyed throws out a capsule holding `weapon`.
+export interface SensorDef {
+  x: number;
+  y?: number;
+  weapon: PickupName;
+}
+
+// Destructible boss part, placed relative to the boss's top-left corner.
+// Cannons fire the boss's gun attacks; shields must fall before the core can be hurt.
+export interface BossPartDef {
+  type: 'cannon' | 'shield';
+  x: number;
+  y: number;
+  health: number;
+  width?: number;
+  height?: number;
+}
+
+export interface BossDef {
+  x: number;
+  y: number;
+  health: number;
+  wallX: number; // Camera stops scrolling at this wall
+  motion?: 'float' | 'fixed'; // 'fixed' stays at y, like a Contra wall boss; default 'float'
+  parts?: BossPartDef[];
+}
+
+export interface ZoneDef {
+  name: string;
+  x: number;
+  music?: string; // Track id from levels/music.ts; zones without one keep the previous zone's
+  terrain?: TerrainDef[];
+  hazards?: HazardDef[];
+  enemies?: EnemyDef[];
+  powerups?: PowerupDef[];
+  sensors?: SensorDef[];
+  boss?: BossDef;
+}
+
+// Scripted events, active while the player is between fromX and toX.
+export type LevelEvent = { type: 'bulletRain'; fromX: number; toX: number; interval: number };
+
+// Off-screen enemy waves, rolled every `interval` ticks while the player is between fromX and toX.
+// Runners come in from the right; flyers cross from the left on a sine wave
+// around `y` and leave a `drop` powerup behind when shot down.
+export type SpawnRule =
+  | { type: 'runner'; interval: number; chance: number; fromX: number; toX: number }
+  | { type: 'flyer'; interval: number; chance: number; fromX: number; toX: number; y: number; amplitude?: number; drop?: PickupName };
+
+// Optional per-level colors; defaults are the jungle palette.
+export interface LevelTheme {
+  ground: string;
+  trim: string;
+}
+
+export interface LevelDefinition {
+  version: number;
+  id: string;
+  name: string;
+  intro?: string; // Tagline on the stage intro card
+  theme?: Partial<LevelTheme>;
+  floorY: number;
+  zones: ZoneDef[];
+  events: LevelEvent[];
+  spawns: SpawnRule[];
+}
+
+export interface LoadedLevel {
+  id: string;
+  name: string;
+  entities: GameObject[];
+  events: LevelEvent[];
+  spawns: SpawnRule[];
+}
+
+// --- VALIDATION ---
+
+export class LevelValidationError extends Error {
+  errors: string[];
+
+  constructor(source: string, errors: string[]) {
+    super(`Invalid level ${source}:\n  ${errors.join('\n  ')}`);
+    this.name = 'LevelValidationError';
+    this.errors = errors;
+  }
+}
+
+const TERRAIN_TYPES = ['ground', 'platform', 'bridge', 'water'];
+const HAZARD_TYPES = ['mine'];
+const ENEMY_TYPES = ['turret', 'sniper', 'tank'];
+export const TURRET_MODES: TurretMode[] = ['open', 'rise', 'sealed'];
+const TURRET_DIRECTIONS = [8, 12];
+const TURRET_TRIGGER = 200;
+const SENSOR_HEALTH = 4;
+const BOSS_PART_TYPES = ['cannon', 'shield'];
+const BOSS_MOTIONS = ['float', 'fixed'];
+const BOSS_PART_SIZES = { cannon: { x: 30, y: 16 }, shield: { x: 80, y: 60 } };
+export const TANK_BEHAVIORS: TankBehavior[] = ['patrol', 'advance'];
+export const ROCKET_KINDS: RocketKind[] = ['straight', 'homing'];
+const EVENT_TYPES = ['bulletRain'];
+const SPAWN_TYPES = ['runner', 'flyer'];
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// Collects every problem in one pass so designers can fix a file in one go.
+const createChecker = () => {
+  const errors: string[] = [];
+
+  const number = (obj: Record<string, unknown>, key: string, path: string, opts: { optional?: boolean; min?: number; max?: number } = {}) => {
+    const v = obj[key];
+    if (v === undefined && opts.optional) return;
+    if (typeof v !== 'number' || !isFinite(v)) {
+      errors.push(`${path}.${key}: expected a number, got ${JSON.stringify(v)}`);
+    } else if (opts.min !== undefined && v < opts.min) {
+      errors.push(`${path}.${key}: must be at least ${opts.min}, got ${v}`);
+    } else if (opts.max !== undefined && v > opts.max) {
+      errors.push(`${path}.${key}: must be at most ${opts.max}, got ${v}`);
+    }
+  };
+
+  const string = (obj: Record<string, unknown>, key: string, path: string) => {
+    if (typeof obj[key] !== 'string' || obj[key] === '') {
+      errors.push(`${path}.${key}: expected a non-empty string, got ${JSON.stringify(obj[key])}`);
+    }
+  };
+
+  const oneOf = (obj: Record<string, unknown>, key: string, path: string, allowed: string[]) => {
+    const v = obj[key];
+    if (typeof v !== 'string' || !allowed.includes(v)) {
+      errors.push(`${path}.${key}: expected one of ${allowed.map(a => `"${a}"`).join(', ')}, got ${JSON.stringify(v)}`);
+      return false;
+    }
+    return true;
+  };
+
+  // Runs `check` on each object of an (optional) array property.
+  const list = (obj: Record<string, unknown>, key: string, path: string, check: (item: Record<string, unknown>, itemPath: string) => void, optional = true) => {
+    const v = obj[key];
+    if (v === undefined && optional) return;
+    if (!Array.isArray(v)) {
+      errors.push(`${path}.${key}: expected an array`);
+      return;
+    }
+    v.forEach((item, i) => {
+      const itemPath = `${path}.${key}[${i}]`;
+      if (!isObject(item)) errors.push(`${itemPath}: expected an object`);
+      else check(item, itemPath);
+    });
+  };
+
+  return { errors, number, string, oneOf, list };
+};
+
+// Checks untrusted JSON against the level schema. Throws a LevelValidationError
+// listing every problem (with its JSON path) or returns the typed definition.
+export const validateLevel = (data: unknown, source: string = 'level'): LevelDefinition => {
+  const c = createChecker();
+  if (!isObject(data)) throw new LevelValidationError(source, ['root: expected an object']);
+
+  if (data.version !== LEVEL_FORMAT_VERSION) {
+    c.errors.push(`level.version: expected ${LEVEL_FORMAT_VERSION}, got ${JSON.stringify(data.version)}`);
+  }
+  c.string(data, 'id', 'level');
+  c.string(data, 'name', 'level');
+  if (data.intro !== undefined) c.string(data, 'intro', 'level');
+  if (data.theme !== undefined) {
+    if (!isObject(data.theme)) c.errors.push('level.theme: expected an object');
+    else {
+      if (data.theme.ground !== undefined) c.string(data.theme, 'ground', 'level.theme');
+      if (data.theme.trim !== undefined) c.string(data.theme, 'trim', 'level.theme');
+    }
+  }
+  c.number(data, 'floorY', 'level', { min: 0, max: CANVAS_HEIGHT });
+
+  c.list(data, 'zones', 'level', (zone, path) => {
+    c.string(zone, 'name', path);
+    c.number(zone, 'x', path);
+    if (zone.music !== undefined) c.oneOf(zone, 'music', path, TRACK_IDS);
+    c.list(zone, 'terrain', path, (t, p) => {
+      if (!c.oneOf(t, 'type', p, TERRAIN_TYPES)) return;
+      c.number(t, 'x', p);
+      c.number(t, 'width', p, { min: 1 });
+      c.number(t, 'y', p, { optional: t.type !== 'platform' });
+      if (t.type === 'water') c.number(t, 'height', p, { min: 1 });
+    });
+    c.list(zone, 'hazards', path, (h, p) => {
+      if (!c.oneOf(h, 'type', p, HAZARD_TYPES)) return;
+      c.number(h, 'x', p);
+      c.number(h, 'y', p, { optional: true });
+    });
+    c.list(zone, 'enemies', path, (e, p) => {
+      if (!c.oneOf(e, 'type', p, ENEMY_TYPES)) return;
+      c.number(e, 'x', p);
+      c.number(e, 'y', p, { optional: true });
+      if (e.type === 'turret') {
+        if (e.directions !== undefined && (typeof e.directions !== 'number' || !TURRET_DIRECTIONS.includes(e.directions))) {
+          c.errors.push(`${p}.directions: expected 8 or 12, got ${JSON.stringify(e.directions)}`);
+        }
+        if (e.mode !== undefined) c.oneOf(e, 'mode', p, TURRET_MODES);
+        c.number(e, 'trigger', p, { optional: true, min: 0 });
+      }
+      if (e.type === 'tank') {
+        if (e.behavior !== undefined) c.oneOf(e, 'behavior', p, TANK_BEHAVIORS);
+        if (e.rockets !== undefined) c.oneOf(e, 'rockets', p, ROCKET_KINDS);
+      }
+    });
+    c.list(zone, 'powerups', path, (pu, p) => {
+      c.number(pu, 'x', p);
+      c.number(pu, 'y', p);
+      c.oneOf(pu, 'weapon', p, PICKUP_NAMES);
+    });
+    c.list(zone, 'sensors', path, (s, p) => {
+      c.number(s, 'x', p);
+      c.number(s, 'y', p, { optional: true });
+      c.oneOf(s, 'weapon', p, PICKUP_NAMES);
+    });
+    if (zone.boss !== undefined) {
+      const p = `${path}.boss`;
+      if (!isObject(zone.boss)) c.errors.push(`${p}: expected an object`);
+      else {
+        c.number(zone.boss, 'x', p);
+        c.number(zone.boss, 'y', p);
+        c.number(zone.boss, 'health', p, { min: 1 });
+        c.number(zone.boss, 'wallX', p);
+        if (zone.boss.motion !== undefined) c.oneOf(zone.boss, 'motion', p, BOSS_MOTIONS);
+        c.list(zone.boss, 'parts', p, (part, pp) => {
+          if (!c.oneOf(part, 'type', pp, BOSS_PART_TYPES)) return;
+          c.number(part, 'x', pp);
+          c.number(part, 'y', pp);
+          c.number(part, 'health', pp, { min: 1 });
+          c.number(part, 'width', pp, { optional: true, min: 1 });
+          c.number(part, 'height', pp, { optional: true, min: 1 });
+        });
+      }
+    }
+  }, false);
+
+  c.list(data, 'events', 'level', (ev, p) => {
+    if (!c.oneOf(ev, 'type', p, EVENT_TYPES)) return;
+    c.number(ev, 'fromX', p);
+    c.number(ev, 'toX', p);
+    c.number(ev, 'interval', p, { min: 1 });
+  });
+
+  c.list(data, 'spawns', 'level', (sp, p) => {
+    if (!c.oneOf(sp, 'type', p, SPAWN_TYPES)) return;
+    c.number(sp, 'interval', p, { min: 1 });
+    c.number(sp, 'chance', p, { min: 0, max: 1 });
+    c.number(sp, 'fromX', p);
+    c.number(sp, 'toX', p);
+    if (sp.type === 'flyer') {
+      c.number(sp, 'y', p, { min: 0, max: CANVAS_HEIGHT });
+      c.number(sp, 'amplitude', p, { optional: true, min: 0 });
+      if (sp.drop !== undefined) c.oneOf(sp, 'drop', p, PICKUP_NAMES);
+    }
+  });
+
+  // The editor and the loader place everything relative to a zone
+  if (Array.isArray(data.zones) && data.zones.length === 0) c.errors.push('level.zones: expected at least one zone');
+  if (Array.isArray(data.zones) && data.zones.filter((z: unknown) => isObject(z) && z.boss).length > 1) {
+    c.errors.push('level.zones: only one zone may define a boss');
+  }
+
+  if (c.errors.length > 0) throw new LevelValidationError(source, c.errors);
+  return { events: [], spawns: [], ...data } as LevelDefinition;
+};
+
+// --- LOADING ---
+
+export interface EntityBuilder {
+  terrain: (t: TerrainDef, cx: number) => GameObject;
+  hazard: (h: HazardDef, cx: number) => GameObject;
+  enemy: (e: EnemyDef, cx: number) => GameObject;
+  powerup: (p: PowerupDef, cx: number) => GameObject;
+  sensor: (s: SensorDef, cx: number) => GameObject;
+  boss: (b: BossDef, cx: number) => GameObject[]; // Core, its parts and the arena wall
+}
+
+// Turns single level items into entities. Shared by loadLevel and the editor,
+// so what you place is exactly what you play.
+export const createEntityBuilder = (def: LevelDefinition): EntityBuilder => {
+  const floorY = def.floorY;
+  const groundColor = def.theme?.ground ?? COLORS.GROUND_TOP;
+  let uid = 0; // Deterministic ids: the same level always yields the same entity list
+
+  const base = (prefix: string, type: EntityType, x: number, y: number, size: { x: number; y: number }, color: string, health: number): GameObject => ({
+    id: `${prefix}-${uid++}`,
+    type,
+    pos: { x, y },
+    vel: { x: 0, y: 0 },
+    size: { ...size },
+    color,
+    health,
+    active: true,
+    facing: -1
+  });
+
+  const terrain = (t: TerrainDef, cx: number): GameObject => {
+    const x = cx + t.x;
+    switch (t.type) {
+      case 'ground': {
+        const y = t.y ?? floorY;
+        return { ...base('floor', EntityType.PLATFORM, x, y, { x: t.width, y: CANVAS_HEIGHT - y + 500 }, groundColor, 999), facing: 1 };
+      }
+      case 'platform':
+        return { ...base('plat', EntityType.PLATFORM, x, t.y, { x: t.width, y: 30 }, groundColor, 999), facing: 1 };
+      case 'bridge':
+        return { ...base('bridge', EntityType.BRIDGE, x, t.y ?? floorY, { x: t.width, y: 20 }, COLORS.BRIDGE, 999), facing: 1, isBridge: true };
+      case 'water':
+        return { ...base('water', EntityType.WATER, x, t.y ?? floorY + 30, { x: t.width, y: t.height }, COLORS.WATER_SURFACE, 999), facing: 1 };
+    }
+  };
+
+  const hazard = (h: HazardDef, cx: number): GameObject => {
+    const y = h.y ?? floorY;
+    return { ...base('mine', EntityType.ENEMY_MINE, cx + h.x, y - 6, SIZES.ENEMY_MINE, COLORS.ENEMY_MINE, 1), facing: 1 };
+  };
+
+  const enemy = (e: EnemyDef, cx: number): GameObject => {
+    const x = cx + e.x;
+    const y = e.y ?? floorY;
+    switch (e.type) {
+      case 'turret': {
+        const top = y - SIZES.ENEMY_TURRET.y;
+        const mode = e.mode ?? 'open';
+        return {
+          ...base('turret', EntityType.ENEMY_TURRET, x, mode === 'rise' ? y : top, SIZES.ENEMY_TURRET, COLORS.TURRET_BASE, 3),
+          state: mode === 'rise' ? 'buried' : mode === 'sealed' ? 'sealed' : 'active',
+          angle: Math.PI,
+          aimSteps: e.directions ?? 12,
+          triggerRange: e.trigger ?? TURRET_TRIGGER,
+          initialY: top,
+          cooldown: 0,
+          burst: 0
+        };
+      }
+      case 'sniper':
+        return base('sniper', EntityType.ENEMY_SNIPER, x, y - SIZES.ENEMY_SNIPER.y, SIZES.ENEMY_SNIPER, COLORS.ENEMY_SNIPER, 2);
+      case 'tank':
+        return {
+          ...base('tank', EntityType.ENEMY_TANK, x, y - SIZES.ENEMY_TANK.y, SIZES.ENEMY_TANK, COLORS.ENEMY_TANK, 12),
+          maxHealth: 12,
+          state: e.behavior ?? 'patrol',
+          homing: e.rockets === 'homing',
+          cooldown: 60,
+          reload: 120
+        };
+    }
+  };
+
+  const powerup = (p: PowerupDef, cx: number): GameObject =>
+    ({ ...base('powerup', EntityType.POWERUP_CAPSULE, cx + p.x, p.y, SIZES.POWERUP, '#aa0000', 1), facing: 1, ...pickupContents(p.weapon) });
+
+  const sensor = (s: SensorDef, cx: number): GameObject => {
+    const y = (s.y ?? floorY) - SIZES.WEAPON_SENSOR.y;
+    return {
+      ...base('sensor', EntityType.WEAPON_SENSOR, cx + s.x, y, SIZES.WEAPON_SENSOR, COLORS.SENSOR_SHELL, SENSOR_HEALTH),
+      facing: 1,
+      state: 'closed',
+      frameTimer: 0,
+      ...pickupContents(s.weapon)
+    };
+  };
+
+  const boss = (b: BossDef, cx: number): GameObject[] => {
+    const fixed = b.motion === 'fixed';
+    const core: GameObject = {
+      ...base('boss', EntityType.ENEMY_BOSS, cx + b.x, b.y, SIZES.ENEMY_BOSS, COLORS.ENEMY_BOSS, b.health),
+      id: 'BOSS_CORE',
+      maxHealth: b.health,
+      bossPhase: 0,
+      state: 'idle',
+      frameTimer: 0,
+      attackIndex: 0,
+      // Floating bosses bob around a fixed line regardless of their y
+      initialY: fixed ? b.y : CANVAS_HEIGHT - 220,
+      amplitude: fixed ? 0 : 60,
+      shielded: (b.parts || []).some(p => p.type === 'shield')
+    };
+    const parts = (b.parts || []).map(p => {
+      const size = { x: p.width ?? BOSS_PART_SIZES[p.type].x, y: p.height ?? BOSS_PART_SIZES[p.type].y };
+      return {
+        ...base('bosspart', EntityType.ENEMY_BOSS_PART, core.pos.x + p.x, core.pos.y + p.y, size, p.type === 'cannon' ? '#444' : '#6a6a8a', p.health),
+        maxHealth: p.health,
+        parentId: core.id,
+        part: p.type,
+        offset: { x: p.x, y: p.y }
+      };
+    });
+    return [
+      core,
+      ...parts,
+      { ...base('wall', EntityType.PLATFORM, cx + b.wallX, 0, { x: 100, y: CANVAS_HEIGHT }, '#300', 999), id: 'boss-wall', facing: 1 }
+    ];
+  };
+
+  return { terrain, hazard, enemy, powerup, sensor, boss };
+};
+
+// Builds the entity list for a validated level.
+export const loadLevel = (def: LevelDefinition): LoadedLevel => {
+  const ents: GameObject[] = [];
+  const build = createEntityBuilder(def);
+
+  def.zones.forEach(zone => {
+    zone.terrain?.forEach(t => ents.push(build.terrain(t, zone.x)));
+    zone.hazards?.forEach(h => ents.push(build.hazard(h, zone.x)));
+    zone.enemies?.forEach(e => ents.push(build.enemy(e, zone.x)));
+    zone.powerups?.forEach(p => ents.push(build.powerup(p, zone.x)));
+    zone.sensors?.forEach(s => ents.push(build.sensor(s, zone.x)));
+    if (zone.boss) ents.push(...build.boss(zone.boss, zone.x));
+  });
+
+  ents.push({
+    id: 'kill-floor',
+    type: EntityType.WATER,
+    pos: { x: -1000, y: CANVAS_HEIGHT + 40 },
+    vel: { x: 0, y: 0 },
+    size: { x: 50000, y: 200 },
+    color: COLORS.WATER_DEEP,
+    health: 999,
+    active: true,
+    facing: 1
+  });
+
+  return { id: def.id, name: def.name, entities: ents, events: def.events, spawns: def.spawns };
+};
+
+// --- REGISTRY ---
+
+const levelCache = new Map<string, LevelDefinition>();
+
+const registry = (): Map<string, LevelDefinition> => {
+  if (levelCache.size === 0) {
+    Object.entries(LEVEL_FILES).forEach(([name, file]) => {
+      const def = validateLevel(file, name);
+      if (levelCache.has(def.id)) throw new LevelValidationError(def.id, [`id: duplicate level id "${def.id}"`]);
+      levelCache.set(def.id, def);
+    });
+  }
+  return levelCache;
+};
+
+export const getLevel = (id: string): LevelDefinition => {
+  const def = registry().get(id);
+  if (!def) throw new Error(`Unknown level "${id}"`);
+  return def;
+};
@@ -0,0 +1,175 @@
+import { InputState } from '../types';
+import { World, cloneWorld, createWorld } from './world';
+import { step } from './simulation';
+import { decodeInput, encodeInput } from './replay';
+
+// --- ONLINE CO-OP ---
+// Both machines run the whole simulation and only exchange button masks.
+// Local input is scheduled `delay` ticks ahead so it usually reaches the peer
+// in time. When the peer's input for a tick is still missing, its last known
+// input is repeated; if the real input turns out different, the world is
+// rolled back to that tick and re-simulated. Every CHECKSUM_INTERVAL final
+// ticks both sides hash their entity list and compare to catch desyncs.
+
+export const NET_INPUT_DELAY = 3;
+const MAX_ROLLBACK = 8;       // Stall rather than predict further ahead than this
+const CHECKSUM_INTERVAL = 60;
+
+// Wire format. `waiting`, `start`, `full` and `left` come from the relay;
+// `input` and `checksum` are forwarded between the peers.
+export type NetMessage =
+  | { type: 'waiting' }
+  | { type: 'start'; seed: number; player: number }
+  | { type: 'full' }
+  | { type: 'left' }
+  | { type: 'input'; tick: number; mask: number }
+  | { type: 'checksum'; tick: number; hash: number };
+
+export interface NetSession {
+  world: World;                      // Present state, possibly built on predicted input
+  local: number;                     // Index of the player on this machine
+  remote: number;
+  delay: number;
+  tick: number;                      // Next tick to simulate
+  inputs: Map<number, number>[];     // Button masks per player, by tick
+  used: Map<number, number>;         // Remote mask each simulated tick actually ran with
+  confirmed: number;                 // Last tick with the remote input known
+  checked: number;                   // Last tick that is final (all inputs known and simulated)
+  rollbackFrom: number | null;       // Earliest tick that ran on a wrong prediction
+  snapshots: Map<number, World>;     // World before each non-final tick
+  checksums: Map<number, number>;    // Ours and the peer's, until both are in
+  peerChecksums: Map<number, number>;
+  rollbacks: number;
+  stalled: boolean;                  // Waiting for the peer's input
+  desyncTick: number | null;
+  peerLeft: boolean;
+  send: (message: NetMessage) => void;
+}
+
+export const createNetSession = (seed: number, local: number, send: (message: NetMessage) => void, highScore: number = 0, delay: number = NET_INPUT_DELAY): NetSession => {
+  const inputs = [new Map<number, number>(), new Map<number, number>()];
+  // Nobody can have pressed anything during the first `delay` ticks
+  for (let t = 0; t < delay; t++) inputs.forEach(m => m.set(t, 0));
+  return {
+    world: createWorld(highScore, seed, undefined, 2),
+    local,
+    remote: 1 - local,
+    delay,
+    tick: 0,
+    inputs,
+    used: new Map(),
+    confirmed: delay - 1,
+    checked: -1,
+    rollbackFrom: null,
+    snapshots: new Map(),
+    checksums: new Map(),
+    peerChecksums: new Map(),
+    rollbacks: 0,
+    stalled: false,
+    desyncTick: null,
+    peerLeft: false,
+    send
+  };
+};
+
+// FNV-1a over the serialized players and entities (plus the RNG, which
+// drifts first when the two sides disagree).
+export const worldChecksum = (world: World): number => {
+  const text = JSON.stringify([world.frame, world.rng.state, world.players, world.entities]);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const compareChecksums = (session: NetSession, tick: number) => {
+  const ours = session.checksums.get(tick);
+  const theirs = session.peerChecksums.get(tick);
+  if (ours === undefined || theirs === undefined) return;
+  if (ours !== theirs && session.desyncTick === null) session.desyncTick = tick;
+  session.checksums.delete(tick);
+  session.peerChecksums.delete(tick);
+};
+
+const simulate = (session: NetSession, tick: number) => {
+  const remote = session.inputs[session.remote].get(tick) ?? session.inputs[session.remote].get(session.confirmed)!;
+  const masks = [0, 0];
+  masks[session.local] = session.inputs[session.local].get(tick)!;
+  masks[session.remote] = remote;
+  session.used.set(tick, remote);
+  session.snapshots.set(tick, cloneWorld(session.world));
+  step(session.world, masks.map(decodeInput));
+};
+
+const rollback = (session: NetSession) => {
+  const from = session.rollbackFrom;
+  if (from === null) return;
+  session.rollbackFrom = null;
+  session.world = cloneWorld(session.snapshots.get(from)!);
+  for (let t = from; t < session.tick; t++) simulate(session, t);
+  session.rollbacks++;
+};
+
+// Hashes ticks that just became final and forgets what can no longer be rolled back.
+const finalize = (session: NetSession) => {
+  const final = Math.min(session.confirmed, session.tick - 1);
+  while (session.checked < final) {
+    const tick = ++session.checked;
+    if (tick % CHECKSUM_INTERVAL !== 0) continue;
+    // The state after `tick` is the snapshot taken before the next one
+    const state = tick + 1 === session.tick ? session.world : session.snapshots.get(tick + 1)!;
+    const hash = worldChecksum(state);
+    session.checksums.set(tick, hash);
+    session.send({ type: 'checksum', tick, hash });
+    compareChecksums(session, tick);
+  }
+  const prune = (map: Map<number, unknown>, before: number) => map.forEach((_, t) => { if (t < before) map.delete(t); });
+  prune(session.snapshots, session.checked + 1);
+  prune(session.used, session.checked + 1);
+  session.inputs.forEach(m => prune(m, session.checked));
+};
+
+// Feeds one message from the peer (or the relay) into the session.
+export const receiveNet = (session: NetSession, message: NetMessage) => {
+  switch (message.type) {
+    case 'input': {
+      const remote = session.inputs[session.remote];
+      if (message.tick <= session.confirmed) return;
+      remote.set(message.tick, message.mask);
+      while (remote.has(session.confirmed + 1)) session.confirmed++;
+      const used = session.used.get(message.tick);
+      if (used !== undefined && used !== message.mask) {
+        session.rollbackFrom = Math.min(session.rollbackFrom ?? message.tick, message.tick);
+      }
+      return;
+    }
+    case 'checksum':
+      session.peerChecksums.set(message.tick, message.hash);
+      compareChecksums(session, message.tick);
+      return;
+    case 'left':
+      session.peerLeft = true;
+      return;
+  }
+};
+
+// Runs one tick with the local player's input. Returns false while waiting
+// for the peer to catch up (nothing was simulated and the input was not used).
+export const advanceNet = (session: NetSession, input: InputState): boolean => {
+  if (session.peerLeft) return false;
+  rollback(session);
+  finalize(session);
+  session.stalled = session.tick - session.confirmed > MAX_ROLLBACK;
+  if (session.stalled) return false;
+
+  const tick = session.tick + session.delay;
+  const mask = encodeInput(input);
+  session.inputs[session.local].set(tick, mask);
+  session.send({ type: 'input', tick, mask });
+
+  simulate(session, session.tick);
+  session.tick++;
+  return true;
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { createInput, createWorld } from './world';
+import { step } from './simulation';
+import { REPLAY_VERSION, createRecorder, parseReplay, recordInput, runReplay, serializeReplay } from './replay';
+
+// Plays a few thousand ticks of running, jumping and shooting and records them.
+const recordRun = (seed: number, ticks: number) => {
+  const world = createWorld(0, seed);
+  const recorder = createRecorder(world);
+  const input = createInput();
+  for (let i = 0; i < ticks; i++) {
+    input.right = i % 300 < 250;
+    input.jump = i % 40 < 5;
+    input.shoot = i % 7 < 3;
+    step(world, input);
+    recordInput(recorder, [input]);
+  }
+  return { world, replay: recorder.replay };
+};
+
+describe('runReplay', () => {
+  it('reproduces the recorded run exactly', () => {
+    const { world, replay } = recordRun(1234, 3000);
+    const replayed = runReplay(parseReplay(serializeReplay(replay)));
+    expect(replayed.frame).toBe(3000);
+    expect(JSON.stringify(replayed)).toBe(JSON.stringify(world));
+  });
+
+  it('plays a different run from a different seed', () => {
+    const { replay } = recordRun(1234, 3000);
+    const other = runReplay({ ...replay, seed: 4321 });
+    expect(JSON.stringify(other)).not.toBe(JSON.stringify(runReplay(replay)));
+  });
+});
+
+describe('parseReplay', () => {
+  const text = (changes: object) => serializeReplay({ ...recordRun(7, 10).replay, ...changes });
+
+  it('refuses replays recorded under older rules', () => {
+    expect(() => parseReplay(text({ version: REPLAY_VERSION - 1 }))).toThrow(
+      `Invalid replay: recorded under older game rules (version ${REPLAY_VERSION - 1}, this build plays ${REPLAY_VERSION})`
+    );
+  });
+
+  it('refuses versions this build does not know', () => {
+    expect(() => parseReplay(text({ version: REPLAY_VERSION + 1 }))).toThrow(`unsupported version ${REPLAY_VERSION + 1}`);
+    expect(() => parseReplay(text({ version: 'latest' }))).toThrow('unsupported version latest');
+  });
+
+  it('refuses malformed files', () => {
+    expect(() => parseReplay('{')).toThrow('not valid JSON');
+    expect(() => parseReplay('[]')).toThrow('expected an object');
+    expect(() => parseReplay(text({ stages: [] }))).toThrow('missing stage list');
+    expect(() => parseReplay(text({ difficulty: 'nightmare' }))).toThrow('unknown difficulty "nightmare"');
+    expect(() => parseReplay(text({ inputs: [0, 5, 1] }))).toThrow('[mask, count] integer pairs');
+    expect(() => parseReplay(text({ ticks: 11 }))).toThrow('header says 11 ticks, inputs hold 10');
+  });
+});
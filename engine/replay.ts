@@ -0,0 +1,160 @@
+import { InputState } from '../types';
+import { DIFFICULTIES, Difficulty, LIVES_RULE_IDS, LivesRuleId, MAX_PLAYERS, SUPER_RECHARGES, SuperRecharge, World, createInput, createWorld } from './world';
+import { step } from './simulation';
+import { getLevel } from './level';
+
+// Replays are the seed, the stage list and the per-tick input stream. Because the
+// simulation is deterministic, feeding the same inputs into a world created
+// from the same seed reproduces the run exactly.
+//
+// Inputs are stored as 8-bit button masks, run-length encoded as a flat
+// [mask, count, mask, count, ...] list. Held buttons compress very well. In
+// co-op, player 2's buttons sit in bits 8-15 of the same mask.
+// A replay only reproduces a run under the rules it was recorded with, so the
+// version goes up with every change to gameplay, and replays from older
+// versions are refused rather than played back wrong.
+export const REPLAY_VERSION = 19;
+
+export interface Replay {
+  version: number;
+  seed: number;
+  stages: string[];
+  players: number;
+  difficulty: Difficulty;
+  lives: LivesRuleId;
+  superRecharge: SuperRecharge;
+  ticks: number;
+  inputs: number[];
+}
+
+const BUTTONS: (keyof InputState)[] = ['left', 'right', 'up', 'down', 'jump', 'shoot', 'altFire', 'rocket'];
+
+export const encodeInput = (input: InputState): number =>
+  BUTTONS.reduce((mask, key, bit) => (input[key] ? mask | (1 << bit) : mask), 0);
+
+export const decodeInput = (mask: number): InputState => {
+  const input = createInput();
+  BUTTONS.forEach((key, bit) => { input[key] = (mask & (1 << bit)) !== 0; });
+  return input;
+};
+
+const encodeInputs = (inputs: InputState[]): number =>
+  inputs.reduce((mask, input, i) => mask | (encodeInput(input) << (i * BUTTONS.length)), 0);
+
+const decodeInputs = (mask: number, players: number): InputState[] =>
+  Array.from({ length: players }, (_, i) => decodeInput((mask >> (i * BUTTONS.length)) & 0xff));
+
+// --- Recording ---
+
+export interface ReplayRecorder {
+  replay: Replay;
+}
+
+export const createRecorder = (world: World): ReplayRecorder => ({
+  replay: {
+    version: REPLAY_VERSION, seed: world.seed, stages: world.campaign.stages.map(s => s.id),
+    players: world.players.length, difficulty: world.difficulty, lives: world.livesRule,
+    superRecharge: world.superRecharge, ticks: 0, inputs: []
+  }
+});
+
+// Call once per tick with exactly the inputs that were passed to step().
+export const recordInput = (recorder: ReplayRecorder, inputs: InputState[]) => {
+  const { replay } = recorder;
+  const mask = encodeInputs(inputs);
+  const last = replay.inputs.length - 2;
+  if (last >= 0 && replay.inputs[last] === mask) replay.inputs[last + 1]++;
+  else replay.inputs.push(mask, 1);
+  replay.ticks++;
+};
+
+// Forgets everything after the first `ticks` ticks. Used when play resumes
+// from a snapshot taken at that tick, e.g. restarting a stage.
+export const rewindRecorder = (recorder: ReplayRecorder, ticks: number) => {
+  const { replay } = recorder;
+  const inputs: number[] = [];
+  let kept = 0;
+  for (let i = 0; i < replay.inputs.length && kept < ticks; i += 2) {
+    const count = Math.min(replay.inputs[i + 1], ticks - kept);
+    inputs.push(replay.inputs[i], count);
+    kept += count;
+  }
+  replay.inputs = inputs;
+  replay.ticks = kept;
+};
+
+// --- Playback ---
+
+export interface ReplayPlayback {
+  replay: Replay;
+  run: number;      // Index of the current [mask, count] pair
+  used: number;     // Ticks consumed from the current pair
+}
+
+export const createPlayback = (replay: Replay): ReplayPlayback => ({ replay, run: 0, used: 0 });
+
+// Inputs (one per player) for the next tick, or null once the recording is exhausted.
+export const nextInput = (playback: ReplayPlayback): InputState[] | null => {
+  const { inputs } = playback.replay;
+  while (playback.run < inputs.length && playback.used >= inputs[playback.run + 1]) {
+    playback.run += 2;
+    playback.used = 0;
+  }
+  if (playback.run >= inputs.length) return null;
+  playback.used++;
+  return decodeInputs(inputs[playback.run], playback.replay.players);
+};
+
+// World to feed the playback into: same seed and stages as the recording.
+export const createReplayWorld = (replay: Replay, highScore: number): World =>
+  createWorld(highScore, replay.seed, replay.stages.map(getLevel), replay.players, replay.difficulty, replay.lives, replay.superRecharge);
+
+// Runs a replay to the end without rendering (tests, bots, bug triage in Node).
+export const runReplay = (replay: Replay, highScore: number = 0): World => {
+  const world = createReplayWorld(replay, highScore);
+  const playback = createPlayback(replay);
+  for (let inputs = nextInput(playback); inputs; inputs = nextInput(playback)) {
+    step(world, inputs);
+  }
+  return world;
+};
+
+// --- Files ---
+
+export const serializeReplay = (replay: Replay): string => JSON.stringify(replay);
+
+// JSON shapes a replay file is checked against.
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isInteger = (v: unknown): v is number => Number.isInteger(v);
+const isOneOf = <T>(list: readonly T[], v: unknown): v is T => (list as readonly unknown[]).includes(v);
+
+export const parseReplay = (text: string): Replay => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid replay: not valid JSON');
+  }
+  if (!isRecord(data)) throw new Error('Invalid replay: expected an object');
+  const { version, seed, stages, players, difficulty, lives, superRecharge, inputs } = data;
+  if (isInteger(version) && version < REPLAY_VERSION) {
+    throw new Error(`Invalid replay: recorded under older game rules (version ${version}, this build plays ${REPLAY_VERSION})`);
+  }
+  if (version !== REPLAY_VERSION) throw new Error(`Invalid replay: unsupported version ${version}`);
+  if (!isInteger(seed)) throw new Error('Invalid replay: missing seed');
+  if (!Array.isArray(stages) || stages.length === 0 || !stages.every((s): s is string => typeof s === 'string')) {
+    throw new Error('Invalid replay: missing stage list');
+  }
+  if (!isInteger(players) || players < 1 || players > MAX_PLAYERS) {
+    throw new Error(`Invalid replay: unsupported player count ${players}`);
+  }
+  if (!isOneOf(DIFFICULTIES, difficulty)) throw new Error(`Invalid replay: unknown difficulty ${JSON.stringify(difficulty)}`);
+  if (!isOneOf(LIVES_RULE_IDS, lives)) throw new Error(`Invalid replay: unknown lives rule ${JSON.stringify(lives)}`);
+  if (!isOneOf(SUPER_RECHARGES, superRecharge)) throw new Error(`Invalid replay: unknown super recharge ${JSON.stringify(superRecharge)}`);
+  if (!Array.isArray(inputs) || inputs.length % 2 !== 0 || !inputs.every(isInteger)) {
+    throw new Error('Invalid replay: inputs must be [mask, count] integer pairs');
+  }
+  const ticks = inputs.reduce((sum, n, i) => (i % 2 ? sum + n : sum), 0);
+  if (data.ticks !== ticks) throw new Error(`Invalid replay: header says ${data.ticks} ticks, inputs hold ${ticks}`);
+  return { version: REPLAY_VERSION, seed, stages, players, difficulty, lives, superRecharge, ticks, inputs };
+};
@@ -0,0 +1,23 @@
+// Seedable PRNG (mulberry32). All gameplay randomness goes through here so a
+// seed plus an input sequence always reproduces the same run. The state is a
+// plain number, so it survives JSON round-trips along with the rest of World.
+export interface Rng {
+  state: number;
+}
+
+export const createRng = (seed: number): Rng => ({ state: seed >>> 0 });
+
+// Uniform float in [0, 1), like Math.random().
+export const random = (rng: Rng): number => {
+  rng.state = (rng.state + 0x6d2b79f5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Uniform float in [min, max).
+export const randomRange = (rng: Rng, min: number, max: number) => min + random(rng) * (max - min);
+
+// Fresh seed for a new run. This is the only place the engine touches Math.random().
+export const randomSeed = () => Math.floor(Math.random() * 4294967296) >>> 0;
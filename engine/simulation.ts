@@ -0,0 +1,1226 @@
+import { EntityType, GameObject, InputState, ItemType, Vector2, WeaponType } from '../types';
+import { CANVAS_WIDTH, CANVAS_HEIGHT, GRAVITY, PLAYER_SPEED, JUMP_FORCE, BULLET_SPEED, ENEMY_SPEED, COLORS, SIZES, ROCKET_SPEED } from '../constants';
+import { Difficulty, LIVES_RULES, LivesRule, SUPER_MAX, SUPER_RECHARGE_TICKS, World, createInput } from './world';
+import { random } from './rng';
+import { stageCleared, updateCampaign } from './campaign';
+import { BARRIER_TICKS, MAX_RAPID, RAPID_STEP, WEAPONS, corkscrewStep, pickupContents, pickupLetter } from './weapons';
+
+const ROCKET_DURATION = 360; // 6 seconds
+export const ROCKET_COST = 50; // Super meter spent on rocket mode
+const BOMB_COST = SUPER_MAX; // The bomb takes a full meter
+const BOMB_BLASTS = 6;       // Explosions dotted over the screen when it goes off
+const SUPER_PER_KILL = 4;
+const COMBO_TICKS = 90;      // A kill within this long of the last one extends the chain
+const COMBO_BONUS = 2;       // Extra meter per kill already in the chain...
+const MAX_COMBO_BONUS = 10;  // ...up to this much
+const RESPAWN_DELAY = 60;    // 1 second
+const CONTINUE_MIN_TICKS = 60; // The continue screen ignores fire this long, so a held button can't take one
+const CAMERA_TRAIL_MARGIN = 20; // Closest the player behind may get to the left edge
+const FLYER_SPEED = ENEMY_SPEED * 1.25;
+const FLYER_AMPLITUDE = 40;  // Default sine wave height
+const FLYER_PERIOD = 120;    // Ticks per full wave
+const TURRET_TURN_DELAY = 8; // Ticks per one-step turn
+const TURRET_BURST = 3;      // Shots per burst
+const TURRET_BURST_GAP = 10; // Ticks between shots in a burst
+const TURRET_RELOAD = 90;    // Ticks between bursts
+const TURRET_WAKE_TICKS = 40; // Rising out of the ground / opening the hatch
+const SENSOR_CLOSED_TICKS = 90; // Weapon sensors sit shut this long...
+const SENSOR_OPEN_TICKS = 60;   // ...then open this long
+const SENSOR_DROP_VEL: Vector2 = { x: 1.5, y: -7 }; // Launch of the capsule a sensor releases
+const TANK_SPEED = 1;
+const TANK_RANGE = 450;         // Tanks wake when the player is this close
+const TANK_KEEP_DISTANCE = 140; // Advancing tanks stop short of the player
+const TANK_SHELL_RELOAD = 150;
+const TANK_ROCKET_RELOAD = 240;
+const SHELL_FLIGHT_TICKS = 40;  // Shells are lobbed to land where the player is
+const TANK_ROCKET_SPEED = 4;
+const ROCKET_TURN = 0.05;       // Max homing turn per tick, in radians
+const ROCKET_HOMING_TICKS = 90;
+
+// Difficulty scales enemy reload times and bullet speeds.
+const DIFFICULTY_TUNING: Record<Difficulty, { reload: number; bulletSpeed: number }> = {
+  easy: { reload: 1.5, bulletSpeed: 0.8 },
+  normal: { reload: 1, bulletSpeed: 1 },
+  hard: { reload: 0.7, bulletSpeed: 1.2 }
+};
+const reloadTicks = (world: World, ticks: number) => Math.round(ticks * DIFFICULTY_TUNING[world.difficulty].reload);
+const enemyBulletSpeed = (world: World, speed: number) => speed * DIFFICULTY_TUNING[world.difficulty].bulletSpeed;
+
+// Boss: health fractions that end phases 0 and 1, and the attack cycle of each phase.
+// In the last phase the core is armored except while it is exposed.
+export type BossAttack = 'aimed' | 'spread' | 'runners' | 'sweep' | 'expose';
+export const BOSS_THRESHOLDS = [2/3, 1/3];
+const BOSS_PATTERNS: BossAttack[][] = [
+  ['aimed', 'spread'],
+  ['spread', 'runners', 'sweep'],
+  ['expose', 'sweep', 'expose', 'spread', 'runners']
+];
+const BOSS_ATTACK_TICKS: Record<BossAttack, number> = { aimed: 100, spread: 90, runners: 60, sweep: 60, expose: 150 };
+const BOSS_REST_TICKS = 50;
+export const BOSS_TELEGRAPH_TICKS = 40;
+const BOSS_TRANSITION_TICKS = 120;
+
+// Helper for collision detection
+export const checkRectOverlap = (a: GameObject, b: GameObject) => {
+  return (
+    a.pos.x < b.pos.x + b.size.x &&
+    a.pos.x + a.size.x > b.pos.x &&
+    a.pos.y < b.pos.y + b.size.y &&
+    a.pos.y + a.size.y > b.pos.y
+  );
+};
+
+// Whether the segment (x1, y1)-(x2, y2) crosses the rectangle (Liang-Barsky clipping).
+const segmentHitsRect = (x1: number, y1: number, x2: number, y2: number, left: number, top: number, right: number, bottom: number) => {
+  const dx = x2 - x1, dy = y2 - y1;
+  let t0 = 0, t1 = 1;
+  const clip = (p: number, q: number) => {
+    if (p === 0) return q >= 0;
+    const r = q / p;
+    if (p < 0) {
+      if (r > t1) return false;
+      t0 = Math.max(t0, r);
+    } else {
+      if (r < t0) return false;
+      t1 = Math.min(t1, r);
+    }
+    return true;
+  };
+  return clip(-dx, x1 - left) && clip(dx, right - x1) && clip(-dy, y1 - top) && clip(dy, bottom - y1);
+};
+
+// Player shots against a target: laser beams test their whole length,
+// everything else its box.
+const shotHits = (shot: GameObject, target: GameObject) => {
+  if (shot.beamLength === undefined) return checkRectOverlap(shot, target);
+  const angle = shot.angle || 0;
+  const pad = shot.size.y / 2;
+  return segmentHitsRect(
+    shot.pos.x - Math.cos(angle) * shot.beamLength, shot.pos.y - Math.sin(angle) * shot.beamLength, shot.pos.x, shot.pos.y,
+    target.pos.x - pad, target.pos.y - pad, target.pos.x + target.size.x + pad, target.pos.y + target.size.y + pad
+  );
+};
+
+// Whether any part of `e` is inside the camera's view.
+const isOnScreen = (world: World, e: GameObject) =>
+  e.pos.x + e.size.x > world.camera.x && e.pos.x < world.camera.x + CANVAS_WIDTH &&
+  e.pos.y + e.size.y > world.camera.y && e.pos.y < world.camera.y + CANVAS_HEIGHT;
+
+// Whether a shot or particle has flown off the screen heading away, never to
+// come back. Lobbed shells fall back in and homing rockets may turn around, so
+// they only count as gone once they drop below the screen.
+const OFFSCREEN_MARGIN = 100;
+const hasFlownOff = (world: World, e: GameObject) => {
+  if (e.pos.y > world.camera.y + CANVAS_HEIGHT + OFFSCREEN_MARGIN) return e.vel.y >= 0;
+  if (e.state === 'shell' || e.type === EntityType.BULLET_ROCKET) return false;
+  if (e.pos.y + e.size.y < world.camera.y - OFFSCREEN_MARGIN) return e.vel.y < 0;
+  if (e.pos.x > world.camera.x + CANVAS_WIDTH + OFFSCREEN_MARGIN) return e.vel.x > 0;
+  if (e.pos.x + e.size.x < world.camera.x - OFFSCREEN_MARGIN) return e.vel.x < 0;
+  return false;
+};
+
+// --- Effects & Logic ---
+
+export const spawnExplosion = (world: World, pos: Vector2, big: boolean = false) => {
+  world.sounds.push({ type: 'explosion', big });
+  const count = big ? 20 : 8;
+  for (let i = 0; i < count; i++) {
+      const angle = (Math.PI * 2 * i) / count;
+      const speed = (big ? 3 : 1.5) + random(world.rng) * 2;
+      world.entities.push({
+          id: `exp-${world.nextId++}`,
+          type: EntityType.PARTICLE,
+          pos: { x: pos.x + (random(world.rng)*20 - 10), y: pos.y + (random(world.rng)*20 - 10) },
+          vel: { x: Math.cos(angle) * speed, y: Math.sin(angle) * speed },
+          size: { x: big ? 8 : 4, y: big ? 8 : 4 },
+          color: i % 2 === 0 ? '#ffaa00' : '#ffffff',
+          health: big ? 40 : 20,
+          active: true,
+          facing: 1
+      });
+  }
+};
+
+// --- Lives & Continues ---
+
+const countLives = (world: World) => {
+  world.state.lives = world.players.reduce((sum, p) => sum + Math.max(0, p.lives || 0), 0);
+};
+
+// Extra lives earned by reaching `score` under `rule`.
+const extraLivesAt = (rule: LivesRule, score: number) => {
+  if (rule.extraLifeAt <= 0 || score < rule.extraLifeAt) return 0;
+  return 1 + (rule.extraLifeEvery > 0 ? Math.floor((score - rule.extraLifeAt) / rule.extraLifeEvery) : 0);
+};
+
+// Everybody comes back with the rule's continue lives. Score is kept.
+const takeContinue = (world: World) => {
+  const rule = LIVES_RULES[world.livesRule];
+  if (world.continuesLeft > 0) world.continuesLeft--;
+  world.continueTimer = 0;
+  world.players.forEach(p => {
+      p.lives = rule.continueLives;
+      p.respawnTimer = RESPAWN_DELAY;
+  });
+  countLives(world);
+};
+
+// The continue countdown freezes the action. Either player can take the
+// continue with jump or fire; when the count runs out the game is over.
+const updateContinue = (world: World, inputs: InputState[]) => {
+  const elapsed = LIVES_RULES[world.livesRule].continueTicks - world.continueTimer;
+  const pressed = inputs.some((input, i) => {
+    const prev = world.prevInputs[i];
+    return (input.jump && !prev.jump) || (input.shoot && !prev.shoot);
+  });
+  if (pressed && elapsed >= CONTINUE_MIN_TICKS) {
+      takeContinue(world);
+      return;
+  }
+  world.continueTimer--;
+  if (world.continueTimer === 0) world.state.gameOver = true;
+};
+
+// A player with lives left comes back after a short delay. A player who is
+// out sits and waits; when every player is out the run continues if the
+// rule allows it, and is over otherwise.
+const handlePlayerDeath = (world: World, player: GameObject) => {
+  if (!player.active) return;
+
+  player.active = false;
+  world.sounds.push({ type: 'death' });
+  spawnExplosion(world, player.pos, true);
+
+  player.lives = (player.lives || 0) - 1;
+  if (player.lives >= 0) {
+      player.respawnTimer = RESPAWN_DELAY;
+  } else if (world.players.every(p => !p.active && (p.lives || 0) < 0)) {
+      const rule = LIVES_RULES[world.livesRule];
+      if (world.continuesLeft === 0) world.state.gameOver = true;
+      else if (rule.continueTicks > 0) world.continueTimer = rule.continueTicks;
+      else takeContinue(world);
+  }
+
+  countLives(world);
+};
+
+const respawnPlayer = (world: World, player: GameObject) => {
+  const slot = world.players.indexOf(player);
+  player.active = true;
+  player.health = 1;
+  player.pos = { x: Math.max(world.camera.x + 64 + slot * 40, 50), y: 0 };
+  player.prevPos = { ...player.pos };
+  player.vel = { x: 0, y: 0 };
+  player.weaponType = WeaponType.NORMAL;
+  player.rapid = 0;
+  player.barrier = 0;
+  player.invincibility = 180;
+  player.cooldown = 0;
+  player.jumpCount = 0;
+  player.rocketTimer = 0;
+  player.combo = 0;
+  player.comboTimer = 0;
+};
+
+// Enemies go after the closest player still in the fight. With nobody alive
+// this is player 1, and the AI's own `active` checks keep it quiet.
+const targetPlayer = (world: World, from: GameObject): GameObject => {
+  let target = world.players[0];
+  let best = Infinity;
+  world.players.forEach(p => {
+      if (!p.active) return;
+      const dx = (p.pos.x + p.size.x/2) - (from.pos.x + from.size.x/2);
+      const dy = (p.pos.y + p.size.y/2) - (from.pos.y + from.size.y/2);
+      const dist = dx * dx + dy * dy;
+      if (dist < best) { best = dist; target = p; }
+  });
+  return target;
+};
+
+// Points go to the player who earned them and to the team total. Passing
+// a score threshold of the lives rule earns an extra life.
+const award = (world: World, player: GameObject, points: number) => {
+  const before = player.score || 0;
+  player.score = before + points;
+  world.state.score += points;
+  world.state.highScore = Math.max(world.state.highScore, player.score);
+
+  const rule = LIVES_RULES[world.livesRule];
+  const gained = extraLivesAt(rule, player.score) - extraLivesAt(rule, before);
+  if (gained > 0 && (player.lives || 0) >= 0) {
+      player.lives = (player.lives || 0) + gained;
+      countLives(world);
+      world.sounds.push({ type: 'extraLife' });
+      floatText(world, { x: player.pos.x, y: player.pos.y - 10 }, '1UP');
+  }
+};
+
+// Text that rises from `pos` for a second, e.g. a pickup's letter.
+const floatText = (world: World, pos: Vector2, text: string) => {
+  world.entities.push({
+    id: `float-${text}-${world.nextId++}`, type: EntityType.PARTICLE, pos: { ...pos },
+    vel: { x: 0, y: -1 }, size: { x: 0, y: 0 }, color: '#ff0000',
+    health: 60, active: true, facing: 1, state: 'TEXT_POPUP', text
+  });
+};
+
+// A kill fills the killer's super meter. Kills in quick succession chain into
+// a combo, and each one in the chain is worth more.
+const chargeSuper = (world: World, player: GameObject) => {
+  const combo = (player.comboTimer || 0) > 0 ? (player.combo || 0) + 1 : 1;
+  player.combo = combo;
+  player.comboTimer = COMBO_TICKS;
+  const gain = SUPER_PER_KILL + Math.min(MAX_COMBO_BONUS, COMBO_BONUS * (combo - 1));
+  player.superMeter = Math.min(SUPER_MAX, (player.superMeter || 0) + gain);
+  if (combo >= 3) floatText(world, { x: player.pos.x, y: player.pos.y - 24 }, `${combo} COMBO`);
+};
+
+// A shot-down or blasted target explodes and pays out. Flying capsules leave
+// their contents behind as a powerup; weapon sensors throw theirs out. Kills
+// charge the owner's super meter unless `charge` is off.
+const destroyTarget = (world: World, target: GameObject, owner: GameObject, charge: boolean = true) => {
+  target.active = false;
+  if (target.type === EntityType.ENEMY_BOSS) {
+      spawnExplosion(world, target.pos, true);
+      stageCleared(world);
+      award(world, owner, 10000);
+  } else if (target.type === EntityType.ENEMY_BOSS_PART) {
+      spawnExplosion(world, target.pos, true);
+      award(world, owner, 500);
+  } else {
+      spawnExplosion(world, target.pos);
+      award(world, owner, 100);
+  }
+  if (charge && target.type !== EntityType.POWERUP_CAPSULE) chargeSuper(world, owner);
+  if (target.type === EntityType.ENEMY_FLYING && (target.dropType !== undefined || target.item !== undefined)) {
+      world.entities.push({
+        id: `powerup-${world.nextId++}`, type: EntityType.POWERUP_CAPSULE, pos: { ...target.pos },
+        vel: { x: 0, y: 0 }, size: { ...SIZES.POWERUP }, color: '#aa0000',
+        health: 1, active: true, facing: 1, dropType: target.dropType, item: target.item
+      });
+  }
+  if (target.type === EntityType.WEAPON_SENSOR) {
+      world.entities.push({
+        id: `powerup-${world.nextId++}`, type: EntityType.POWERUP_CAPSULE,
+        pos: { x: target.pos.x + (target.size.x - SIZES.POWERUP.x) / 2, y: target.pos.y },
+        vel: { ...SENSOR_DROP_VEL }, size: { ...SIZES.POWERUP }, color: '#aa0000',
+        health: 1, active: true, facing: 1, state: 'dropped', grounded: false, dropType: target.dropType, item: target.item
+      });
+  }
+};
+
+// Falcon: every enemy on screen is destroyed and enemy fire vanishes. Bosses
+// and buried turrets are out of its reach.
+const FALCON_TARGETS = [EntityType.ENEMY_RUNNER, EntityType.ENEMY_SNIPER, EntityType.ENEMY_FLYING, EntityType.ENEMY_TURRET, EntityType.ENEMY_TANK, EntityType.ENEMY_MINE];
+const falconBlast = (world: World, player: GameObject, charge: boolean = true) => {
+  world.entities.forEach(e => {
+    if (!e.active || !isOnScreen(world, e)) return;
+    if (FALCON_TARGETS.includes(e.type) && e.state !== 'buried') destroyTarget(world, e, player, charge);
+    else if (e.type === EntityType.BULLET_ENEMY || e.type === EntityType.BULLET_ROCKET) e.active = false;
+  });
+};
+
+// Alt-fire bomb: clears the screen the way the Falcon does, with explosions
+// all over it. What it destroys doesn't refill the meter or count toward a combo.
+const superBomb = (world: World, player: GameObject) => {
+  player.superMeter = (player.superMeter || 0) - BOMB_COST;
+  world.sounds.push({ type: 'bomb' });
+  falconBlast(world, player, false);
+  for (let i = 0; i < BOMB_BLASTS; i++) {
+    spawnExplosion(world, { x: world.camera.x + random(world.rng) * CANVAS_WIDTH, y: random(world.rng) * CANVAS_HEIGHT * 0.8 }, true);
+  }
+};
+
+// A capsule was shot open or picked up: its weapon replaces the player's, or its item takes effect.
+const collectCapsule = (world: World, player: GameObject, capsule: GameObject) => {
+  world.sounds.push({ type: 'powerup' });
+  switch (capsule.item) {
+    case ItemType.RAPID:
+      player.rapid = Math.min(MAX_RAPID, (player.rapid || 0) + 1);
+      break;
+    case ItemType.BARRIER:
+      player.barrier = BARRIER_TICKS;
+      break;
+    case ItemType.FALCON:
+      falconBlast(world, player);
+      break;
+    default:
+      player.weaponType = capsule.dropType ?? WeaponType.SPREAD;
+  }
+  floatText(world, capsule.pos, pickupLetter(capsule));
+};
+
+const checkPlatformCollisions = (entity: GameObject, others: GameObject[]) => {
+    if (entity.vel.y < 0) return;
+
+    const feetY = entity.pos.y + entity.size.y;
+    const prevFeetY = feetY - entity.vel.y;
+
+    for (const other of others) {
+        if ((other.type === EntityType.PLATFORM || other.type === EntityType.BRIDGE) && other.active) {
+            if (
+                entity.pos.x + entity.size.x > other.pos.x + 4 &&
+                entity.pos.x < other.pos.x + other.size.x - 4
+            ) {
+                if (feetY >= other.pos.y && prevFeetY <= other.pos.y + 16) {
+                    entity.pos.y = other.pos.y - entity.size.y;
+                    entity.vel.y = 0;
+                    entity.grounded = true;
+
+                    if (entity.type === EntityType.PLAYER) entity.jumpCount = 0;
+                    return;
+                }
+            }
+        }
+    }
+};
+
+// Weapon sensors open and close on a fixed cycle; shots only hurt them while open.
+const updateSensor = (e: GameObject) => {
+  e.frameTimer = (e.frameTimer || 0) + 1;
+  if (e.frameTimer >= (e.state === 'open' ? SENSOR_OPEN_TICKS : SENSOR_CLOSED_TICKS)) {
+    e.state = e.state === 'open' ? 'closed' : 'open';
+    e.frameTimer = 0;
+  }
+};
+
+// Turret states: 'buried' -> 'rising' -> 'active', or 'sealed' -> 'opening' -> 'active'.
+// Active turrets only work while on screen, turn toward the player one aim
+// step at a time and fire bursts once lined up.
+const updateTurret = (world: World, e: GameObject) => {
+  const player = targetPlayer(world, e);
+  const onScreen = e.pos.x + e.size.x > world.camera.x && e.pos.x < world.camera.x + CANVAS_WIDTH;
+  const dx = (player.pos.x + player.size.x/2) - (e.pos.x + e.size.x/2);
+  const dy = (player.pos.y + player.size.y/2) - (e.pos.y + e.size.y/2);
+
+  if (e.state === 'buried' || e.state === 'sealed') {
+    if (onScreen && player.active && Math.abs(dx) < (e.triggerRange || 0)) {
+      e.state = e.state === 'buried' ? 'rising' : 'opening';
+      e.frameTimer = 0;
+    }
+    return;
+  }
+  if (e.state === 'rising' || e.state === 'opening') {
+    e.frameTimer = (e.frameTimer || 0) + 1;
+    if (e.state === 'rising') e.pos.y = (e.initialY || 0) + e.size.y * (1 - e.frameTimer / TURRET_WAKE_TICKS);
+    if (e.frameTimer >= TURRET_WAKE_TICKS) {
+      e.state = 'active';
+      e.cooldown = TURRET_BURST_GAP * 2;
+    }
+    return;
+  }
+  if (!onScreen) return;
+
+  // Turn one step toward the player, the short way round
+  const steps = e.aimSteps || 12;
+  const stepAngle = (Math.PI * 2) / steps;
+  const current = Math.round((e.angle ?? Math.PI) / stepAngle);
+  const wanted = Math.round(Math.atan2(dy, dx) / stepAngle);
+  let diff = (((wanted - current) % steps) + steps) % steps;
+  if (diff > steps / 2) diff -= steps;
+  e.frameTimer = (e.frameTimer || 0) + 1;
+  if (diff !== 0 && e.frameTimer % TURRET_TURN_DELAY === 0) {
+    e.angle = (current + Math.sign(diff)) * stepAngle;
+  }
+
+  if (e.cooldown && e.cooldown > 0) {
+    e.cooldown--;
+    return;
+  }
+  if (diff !== 0 || !player.active) return;
+
+  const angle = current * stepAngle;
+  const speed = enemyBulletSpeed(world, BULLET_SPEED * 0.6);
+  world.entities.push({
+    id: `tbul-${world.nextId++}`,
+    type: EntityType.BULLET_ENEMY,
+    pos: { x: e.pos.x + e.size.x/2 + Math.cos(angle) * 20, y: e.pos.y + e.size.y/2 + Math.sin(angle) * 20 },
+    vel: { x: Math.cos(angle) * speed, y: Math.sin(angle) * speed },
+    size: { ...SIZES.BULLET },
+    color: COLORS.BULLET_ENEMY,
+    health: 1,
+    active: true,
+    facing: Math.cos(angle) > 0 ? 1 : -1
+  });
+  e.burst = (e.burst || 0) + 1;
+  if (e.burst >= TURRET_BURST) {
+    e.burst = 0;
+    e.cooldown = reloadTicks(world, TURRET_RELOAD);
+  } else {
+    e.cooldown = reloadTicks(world, TURRET_BURST_GAP);
+  }
+};
+
+// Solid terrain at a point: what tanks feel for before driving on.
+const solidAt = (world: World, x: number, y: number) =>
+  world.entities.some(o =>
+    (o.type === EntityType.PLATFORM || o.type === EntityType.BRIDGE) && o.active &&
+    x >= o.pos.x && x <= o.pos.x + o.size.x && y >= o.pos.y && y <= o.pos.y + o.size.y
+  );
+
+// Tanks wake when the player is in range. Patrolling tanks drive back and
+// forth, advancing ones close in; both turn back or stop at the end of their
+// platform or at a wall. The cannon lobs shells at the player and the launcher
+// fires straight or homing rockets.
+const updateTank = (world: World, e: GameObject) => {
+  const player = targetPlayer(world, e);
+  const dx = (player.pos.x + player.size.x/2) - (e.pos.x + e.size.x/2);
+  if (!e.grounded || Math.abs(dx) > TANK_RANGE || !player.active) {
+    e.vel.x = 0;
+    return;
+  }
+  e.facing = dx > 0 ? 1 : -1;
+
+  let dir = e.state === 'advance'
+    ? (Math.abs(dx) > TANK_KEEP_DISTANCE ? e.facing : 0)
+    : (Math.sign(e.vel.x) || -1);
+  if (dir !== 0) {
+    const front = dir > 0 ? e.pos.x + e.size.x + 2 : e.pos.x - 2;
+    const blocked = !solidAt(world, front, e.pos.y + e.size.y + 2) || solidAt(world, front, e.pos.y + e.size.y / 2);
+    if (blocked) dir = e.state === 'advance' ? 0 : -dir;
+  }
+  e.vel.x = dir * TANK_SPEED;
+
+  const barrel = { x: e.facing === 1 ? e.pos.x + e.size.x + 8 : e.pos.x - 8, y: e.pos.y + 6 };
+
+  e.cooldown = (e.cooldown || 0) - 1;
+  if (e.cooldown <= 0) {
+    e.cooldown = reloadTicks(world, TANK_SHELL_RELOAD);
+    const sx = (player.pos.x + player.size.x/2) - barrel.x;
+    const sy = (player.pos.y + player.size.y) - barrel.y;
+    const vx = Math.max(-8, Math.min(8, sx / SHELL_FLIGHT_TICKS));
+    world.entities.push({
+      id: `shell-${world.nextId++}`,
+      type: EntityType.BULLET_ENEMY,
+      pos: { ...barrel },
+      vel: { x: vx, y: sy / SHELL_FLIGHT_TICKS - GRAVITY * SHELL_FLIGHT_TICKS / 2 },
+      size: { x: 8, y: 8 },
+      color: COLORS.BULLET_ENEMY,
+      health: 1,
+      active: true,
+      facing: e.facing,
+      state: 'shell'
+    });
+  }
+
+  e.reload = (e.reload || 0) - 1;
+  if (e.reload <= 0) {
+    e.reload = reloadTicks(world, TANK_ROCKET_RELOAD);
+    world.entities.push({
+      id: `rocket-${world.nextId++}`,
+      type: EntityType.BULLET_ROCKET,
+      pos: { x: barrel.x, y: e.pos.y + 14 },
+      vel: { x: e.facing * TANK_ROCKET_SPEED, y: 0 },
+      size: { ...SIZES.ROCKET },
+      color: COLORS.BULLET_ROCKET,
+      health: 1,
+      active: true,
+      facing: e.facing,
+      homing: e.homing,
+      frameTimer: 0
+    });
+  }
+};
+
+// With every cannon destroyed the boss calls in runners instead of shooting.
+export const currentBossAttack = (e: GameObject): BossAttack => {
+  const pattern = BOSS_PATTERNS[Math.min(e.bossPhase || 0, BOSS_PATTERNS.length - 1)];
+  const attack = pattern[(e.attackIndex || 0) % pattern.length];
+  return e.disarmed && (attack === 'aimed' || attack === 'spread') ? 'runners' : attack;
+};
+
+export const isBossVulnerable = (e: GameObject) =>
+  e.state !== 'transition' && !e.shielded &&
+  ((e.bossPhase || 0) < BOSS_PATTERNS.length - 1 || (e.state === 'attack' && currentBossAttack(e) === 'expose'));
+
+const partsOf = (world: World, parent: GameObject) => world.entities.filter(p => p.parentId === parent.id);
+
+const parentOf = (world: World, part: GameObject) => world.entities.find(p => p.id === part.parentId);
+
+// Parts ride on their parent and go down with it.
+const updateBossPart = (world: World, e: GameObject) => {
+  const parent = parentOf(world, e);
+  if (!parent || !parent.active) {
+    e.active = false;
+    spawnExplosion(world, e.pos, true);
+    return;
+  }
+  e.pos = { x: parent.pos.x + (e.offset?.x || 0), y: parent.pos.y + (e.offset?.y || 0) };
+};
+
+const setBossState = (e: GameObject, state: string) => {
+  e.state = state;
+  e.frameTimer = 0;
+};
+
+// Called after every hit. Crossing a threshold starts the invulnerable phase
+// transition; the boss can't die before its last phase.
+const checkBossPhase = (e: GameObject) => {
+  const threshold = BOSS_THRESHOLDS[e.bossPhase || 0];
+  if (threshold === undefined || e.health > threshold * (e.maxHealth || e.health)) return;
+  e.health = Math.max(1, e.health);
+  setBossState(e, 'transition');
+};
+
+// Top of the first floor at or below y, for ground sweeps.
+const surfaceBelow = (world: World, x: number, y: number) => {
+  let top = CANVAS_HEIGHT - 60;
+  world.entities.forEach(o => {
+    if ((o.type === EntityType.PLATFORM || o.type === EntityType.BRIDGE) && o.id !== 'boss-wall' &&
+        x >= o.pos.x && x <= o.pos.x + o.size.x && o.pos.y >= y && o.pos.y < top) {
+      top = o.pos.y;
+    }
+  });
+  return top;
+};
+
+const bossBullet = (world: World, pos: Vector2, angle: number, baseSpeed: number, size: Vector2 = SIZES.BULLET, color = '#ffff00') => {
+  const speed = enemyBulletSpeed(world, baseSpeed);
+  world.entities.push({
+    id: `boss-gun-${world.nextId++}`,
+    type: EntityType.BULLET_ENEMY,
+    pos: { ...pos },
+    vel: { x: Math.cos(angle) * speed, y: Math.sin(angle) * speed },
+    size: { ...size },
+    color,
+    health: 1, active: true, facing: -1
+  });
+};
+
+// `guns` are the muzzles gun attacks fire from: living cannon parts, or the
+// eye for bosses built without cannons.
+const bossAttack = (world: World, e: GameObject, attack: BossAttack, t: number, guns: Vector2[]) => {
+  const player = targetPlayer(world, e);
+  const eye = { x: e.pos.x, y: e.pos.y + 80 };
+  const aimFrom = (from: Vector2) => Math.atan2((player.pos.y + player.size.y/2) - from.y, (player.pos.x + player.size.x/2) - from.x);
+  const aim = aimFrom(eye);
+  switch (attack) {
+    case 'aimed':
+      if (t % 10 === 0) guns.forEach(g => bossBullet(world, g, aimFrom(g), 8));
+      break;
+    case 'spread':
+      if (t % 30 === 1) {
+        guns.forEach(g => {
+          for (let i = -2; i <= 2; i++) bossBullet(world, g, aimFrom(g) + i * 0.25, 5, SIZES.SPREAD_BULLET, COLORS.BULLET_ENEMY);
+        });
+      }
+      break;
+    case 'runners':
+      if (t % 30 === 1) {
+        world.entities.push({
+          id: `runner-${world.nextId++}`,
+          type: EntityType.ENEMY_RUNNER,
+          pos: { x: e.pos.x - 10, y: e.pos.y + e.size.y - SIZES.ENEMY_RUNNER.y },
+          vel: { x: -ENEMY_SPEED, y: 0 },
+          size: { ...SIZES.ENEMY_RUNNER },
+          color: COLORS.ENEMY_UNIFORM,
+          health: 1,
+          active: true,
+          facing: -1,
+          grounded: false
+        });
+      }
+      break;
+    case 'sweep':
+      // A stream of low shots along the floor: jump it
+      if (t % 5 === 1) bossBullet(world, { x: e.pos.x, y: (e.aimY ?? CANVAS_HEIGHT - 60) - 14 }, Math.PI, 7, { x: 12, y: 6 }, '#ff00ff');
+      break;
+    case 'expose':
+      if (t % 25 === 0) bossBullet(world, eye, aim, 6);
+      break;
+  }
+};
+
+// Boss state machine: idle -> telegraph -> attack, cycling through the
+// current phase's pattern, with a 'transition' between phases.
+const updateBoss = (world: World, e: GameObject) => {
+  const player = targetPlayer(world, e);
+  e.frameTimer = (e.frameTimer || 0) + 1;
+  const shake = e.state === 'transition' ? (random(world.rng) - 0.5) * 6 : 0;
+  e.pos.y = (e.initialY ?? CANVAS_HEIGHT - 220) + Math.sin(world.frame * 0.02) * (e.amplitude ?? 60) + shake;
+
+  const parts = partsOf(world, e);
+  const cannons = parts.filter(p => p.part === 'cannon');
+  const liveCannons = cannons.filter(p => p.active);
+  e.shielded = parts.some(p => p.part === 'shield' && p.active);
+  e.disarmed = cannons.length > 0 && liveCannons.length === 0;
+
+  if (e.state === 'transition') {
+    if (e.frameTimer % 15 === 0) {
+      spawnExplosion(world, { x: e.pos.x + random(world.rng) * e.size.x, y: e.pos.y + random(world.rng) * e.size.y });
+    }
+    if (e.frameTimer >= BOSS_TRANSITION_TICKS) {
+      e.bossPhase = (e.bossPhase || 0) + 1;
+      e.attackIndex = 0;
+      setBossState(e, 'idle');
+    }
+    return;
+  }
+  if (e.pos.x > world.camera.x + CANVAS_WIDTH || !player.active) return;
+
+  const attack = currentBossAttack(e);
+  if (e.state === 'idle' && e.frameTimer >= BOSS_REST_TICKS) {
+    setBossState(e, 'telegraph');
+    if (attack === 'sweep') e.aimY = surfaceBelow(world, player.pos.x + player.size.x/2, player.pos.y);
+  } else if (e.state === 'telegraph' && e.frameTimer >= BOSS_TELEGRAPH_TICKS) {
+    setBossState(e, 'attack');
+  } else if (e.state === 'attack') {
+    const guns = cannons.length > 0
+      ? liveCannons.map(c => ({ x: c.pos.x, y: c.pos.y + c.size.y/2 }))
+      : [{ x: e.pos.x, y: e.pos.y + 80 }];
+    bossAttack(world, e, attack, e.frameTimer, guns);
+    if (e.frameTimer >= BOSS_ATTACK_TICKS[attack]) {
+      e.attackIndex = (e.attackIndex || 0) + 1;
+      setBossState(e, 'idle');
+    }
+  }
+};
+
+// Homing rockets turn toward the player for a while, then fly straight.
+const steerRocket = (world: World, e: GameObject) => {
+  e.frameTimer = (e.frameTimer || 0) + 1;
+  const player = targetPlayer(world, e);
+  if (!e.homing || e.frameTimer > ROCKET_HOMING_TICKS || !player.active) return;
+  const heading = Math.atan2(e.vel.y, e.vel.x);
+  const wanted = Math.atan2((player.pos.y + player.size.y/2) - e.pos.y, (player.pos.x + player.size.x/2) - e.pos.x);
+  let turn = wanted - heading;
+  while (turn > Math.PI) turn -= Math.PI * 2;
+  while (turn < -Math.PI) turn += Math.PI * 2;
+  const next = heading + Math.max(-ROCKET_TURN, Math.min(ROCKET_TURN, turn));
+  e.vel = { x: Math.cos(next) * TANK_ROCKET_SPEED, y: Math.sin(next) * TANK_ROCKET_SPEED };
+  e.facing = e.vel.x >= 0 ? 1 : -1;
+};
+
+// Movement, super meter, rocket mode and shooting for one living player.
+const updatePlayer = (world: World, player: GameObject, input: InputState, prevInput: InputState) => {
+  // Super meter: the combo chain runs out and the meter recharges, except during a rocket run
+  if ((player.comboTimer || 0) > 0) player.comboTimer! -= 1;
+  const recharge = SUPER_RECHARGE_TICKS[world.superRecharge];
+  if (recharge > 0 && world.frame % recharge === 0 && (player.rocketTimer || 0) <= 0) {
+      player.superMeter = Math.min(SUPER_MAX, (player.superMeter || 0) + 1);
+  }
+  if (input.altFire && !prevInput.altFire && (player.superMeter || 0) >= BOMB_COST) {
+      superBomb(world, player);
+  }
+
+  // Rocket Mode Logic
+  if (input.rocket && !prevInput.rocket && (player.rocketTimer || 0) <= 0 && (player.superMeter || 0) >= ROCKET_COST) {
+      player.superMeter! -= ROCKET_COST;
+      player.rocketTimer = ROCKET_DURATION;
+  }
+
+  if ((player.rocketTimer || 0) > 0) {
+      player.rocketTimer! -= 1;
+      player.state = 'jump'; // Animation re-use
+      player.invincibility = 2; // Invincible
+
+      // Auto fly forward + control up/down
+      player.vel.x = ROCKET_SPEED;
+      if (input.up) player.vel.y = -4;
+      else if (input.down) player.vel.y = 4;
+      else player.vel.y = 0;
+
+      player.pos.x += player.vel.x;
+      player.pos.y += player.vel.y;
+
+      // Thrust particles
+      if (world.frame % 2 === 0) {
+          world.sounds.push({ type: 'thrust' });
+          world.entities.push({
+            id: `thrust-${world.nextId++}`,
+            type: EntityType.PARTICLE,
+            pos: { x: player.pos.x, y: player.pos.y + 20 },
+            vel: { x: -4, y: random(world.rng)*2-1 },
+            size: { x: 4, y: 4 },
+            color: '#00ffff',
+            health: 10, active: true, facing: -1
+        });
+      }
+
+  } else {
+      // Normal Movement
+      if (input.left) {
+        player.vel.x = -PLAYER_SPEED;
+        player.facing = -1;
+        if (player.grounded) player.state = 'run';
+      } else if (input.right) {
+        player.vel.x = PLAYER_SPEED;
+        player.facing = 1;
+        if (player.grounded) player.state = 'run';
+      } else {
+        player.vel.x = 0;
+        if (player.grounded) player.state = 'idle';
+      }
+
+      if (input.down) {
+         if (player.grounded) {
+           player.vel.x = 0;
+           player.state = 'duck';
+           player.size.y = 22;
+           player.pos.y += 22;
+         }
+      } else {
+         if (player.size.y === 22) {
+           player.size.y = SIZES.PLAYER.y;
+           player.pos.y -= 22;
+         }
+      }
+
+      const justPressedJump = input.jump && !prevInput.jump;
+      if (justPressedJump) {
+           player.vel.y = -JUMP_FORCE;
+           player.grounded = false;
+           player.state = 'jump';
+      }
+
+      if (!player.grounded) {
+        player.state = 'jump';
+        player.angle = (player.angle || 0) + 0.35 * player.facing;
+      } else {
+        player.angle = 0;
+      }
+
+      player.vel.y += GRAVITY;
+      player.pos.x += player.vel.x;
+      player.pos.y += player.vel.y;
+      if (player.vel.y > 10) player.vel.y = 10;
+  }
+
+  // --- Shooting ---
+  const isShooting = input.shoot;
+  const weapon = player.weaponType ?? WeaponType.NORMAL;
+  const def = WEAPONS[weapon];
+  const onScreen = () => world.entities.filter(e => e.type === EntityType.BULLET_PLAYER && e.active && e.ownerId === player.id).length;
+  // Allow shooting in rocket mode too
+  const canShoot = isShooting && (player.cooldown || 0) <= 0;
+  // A new laser beam replaces the player's last one
+  if (canShoot && def.motion === 'beam') {
+    world.entities.forEach(e => { if (e.ownerId === player.id && e.beamLength !== undefined) e.active = false; });
+  }
+  if (canShoot && onScreen() + def.pattern.angles.length <= def.maxBullets) {
+    world.sounds.push({ type: 'shot', weapon });
+    const speed = def.speed * (1 + RAPID_STEP * (player.rapid || 0));
+
+    let dirX: number = player.facing;
+    let dirY: number = 0;
+
+    const isMoving = input.left || input.right;
+
+    if (input.up) {
+        if (isMoving) { dirY = -0.707; dirX = player.facing * 0.707; }
+        else { dirY = -1; dirX = 0; }
+    } else if (input.down) {
+        if (player.grounded) { dirY = 0; dirX = player.facing; } // Crouch
+        else {
+            if (isMoving) { dirY = 0.707; dirX = player.facing * 0.707; }
+            else { dirY = 1; dirX = 0; }
+        }
+    } else {
+        dirY = 0; dirX = player.facing;
+    }
+
+    if ((player.rocketTimer || 0) > 0) {
+        // Forced forward shooting in rocket mode
+        dirY = 0; dirX = 1;
+    }
+
+    const spawnBullet = (vx: number, vy: number, angleOffset: number = 0) => {
+      let spawnY = player.pos.y + 8;
+      if (input.down && player.grounded) spawnY = player.pos.y + 16;
+      if (input.up) spawnY = player.pos.y - 4;
+      if (player.rocketTimer) spawnY = player.pos.y + 20;
+
+      world.entities.push({
+        id: `pbul-${world.nextId++}`,
+        type: EntityType.BULLET_PLAYER,
+        pos: { x: player.pos.x + player.size.x/2 - 4, y: spawnY },
+        vel: { x: vx, y: vy },
+        size: { ...def.size },
+        color: def.color,
+        health: 1,
+        active: true,
+        facing: player.facing,
+        piercing: def.piercing || (player.rocketTimer || 0) > 0, // Rocket shots pierce
+        spin: def.motion === 'corkscrew' ? 0 : undefined,
+        beamLength: def.motion === 'beam' ? 0 : undefined,
+        angle: Math.atan2(vy, vx) + angleOffset,
+        ownerId: player.id
+      });
+    };
+
+    const { angles, jitter } = def.pattern;
+    if (angles.length > 1) {
+       const baseAngle = Math.atan2(dirY, dirX || (player.facing * 0.01));
+       angles.forEach(offset => spawnBullet(Math.cos(baseAngle + offset) * speed, Math.sin(baseAngle + offset) * speed));
+    } else {
+       const wobble = jitter > 0 ? (random(world.rng) - 0.5) * jitter : 0;
+       spawnBullet(dirX * speed, dirY * speed + wobble);
+    }
+    player.cooldown = def.cooldown;
+  }
+
+  if (player.cooldown && player.cooldown > 0) player.cooldown--;
+  if (player.invincibility && player.invincibility > 0) player.invincibility--;
+  if (player.barrier && player.barrier > 0) player.barrier--;
+};
+
+// Remember where everything was before this tick so the renderer can
+// interpolate between the last two ticks.
+const snapshotPositions = (world: World) => {
+  const save = (e: GameObject) => {
+    if (e.prevPos) { e.prevPos.x = e.pos.x; e.prevPos.y = e.pos.y; }
+    else e.prevPos = { ...e.pos };
+  };
+  world.players.forEach(save);
+  world.entities.forEach(save);
+  world.prevCamera = { ...world.camera };
+};
+
+// Advances the world by one fixed tick (1/TICK_RATE s) using one input per
+// player; a single input drives player 1. Mutates `world` in place.
+export const step = (world: World, input: InputState | InputState[]) => {
+  const given = Array.isArray(input) ? input : [input];
+  const inputs = world.players.map((_, i) => given[i] ?? createInput());
+  snapshotPositions(world);
+  world.sounds = [];
+  world.frame++;
+
+  // Stage intro, boss celebration, results and ending freeze the action
+  const celebrate = () => spawnExplosion(world, { x: world.camera.x + random(world.rng) * CANVAS_WIDTH, y: random(world.rng) * CANVAS_HEIGHT }, true);
+  if (!updateCampaign(world, inputs, celebrate)) {
+      world.prevInputs = inputs.map(i => ({ ...i }));
+      return;
+  }
+
+  // So does the continue countdown
+  if (world.continueTimer > 0) {
+      updateContinue(world, inputs);
+      world.prevInputs = inputs.map(i => ({ ...i }));
+      return;
+  }
+
+  world.players.forEach(player => {
+      if ((player.respawnTimer || 0) > 0) {
+          player.respawnTimer!--;
+          if (player.respawnTimer === 0) respawnPlayer(world, player);
+      }
+  });
+
+  // --- Bullet Rain Events ---
+  // Stage regions are triggered by whoever is furthest ahead
+  const px = Math.max(...world.players.map(p => p.pos.x));
+  const rain = world.events.find(ev => ev.type === 'bulletRain' && px > ev.fromX && px < ev.toX);
+
+  if (rain && world.frame % rain.interval === 0) {
+      // Rain Bullet
+      const rainX = world.camera.x + random(world.rng) * CANVAS_WIDTH;
+      world.entities.push({
+          id: `rain-${world.nextId++}`,
+          type: EntityType.BULLET_ENEMY,
+          pos: { x: rainX, y: 0 },
+          vel: { x: -1 + random(world.rng)*2, y: 6 + random(world.rng)*2 }, // Fall fast
+          size: { x: 4, y: 12 },
+          color: '#ff8800',
+          health: 1, active: true, facing: 1,
+          // Custom prop to mark as rain so it explodes on ground
+          dropType: WeaponType.NORMAL
+      });
+  }
+
+  // --- Player Movement ---
+  world.players.forEach((player, i) => {
+      if (player.active) updatePlayer(world, player, inputs[i], world.prevInputs[i]);
+  });
+
+  // --- Entities Update ---
+
+  world.spawns.forEach(rule => {
+    if (world.frame % rule.interval !== 0 || world.state.gameOver) return;
+    const spawnX = world.camera.x + CANVAS_WIDTH + 20;
+    const playerX = px;
+
+    if (playerX >= rule.fromX && playerX <= rule.toX) {
+        if (random(world.rng) < rule.chance) {
+            if (rule.type === 'flyer') {
+                world.entities.push({
+                  id: `flyer-${world.nextId++}`,
+                  type: EntityType.ENEMY_FLYING,
+                  pos: { x: world.camera.x - SIZES.ENEMY_FLYING.x, y: rule.y },
+                  vel: { x: FLYER_SPEED, y: 0 },
+                  size: { ...SIZES.ENEMY_FLYING },
+                  color: COLORS.ENEMY_FLYING,
+                  health: 1,
+                  active: true,
+                  facing: 1,
+                  initialY: rule.y,
+                  amplitude: rule.amplitude ?? FLYER_AMPLITUDE,
+                  frameTimer: 0,
+                  ...(rule.drop !== undefined ? pickupContents(rule.drop) : {})
+                });
+                return;
+            }
+            world.entities.push({
+              id: `runner-${world.nextId++}`,
+              type: EntityType.ENEMY_RUNNER,
+              pos: { x: spawnX, y: 0 },
+              vel: { x: -ENEMY_SPEED, y: 0 },
+              size: { ...SIZES.ENEMY_RUNNER },
+              color: COLORS.ENEMY_UNIFORM,
+              health: 1,
+              active: true,
+              facing: -1,
+              grounded: false
+            });
+        }
+    }
+  });
+
+  world.entities.forEach(e => {
+    if (!e.active) return;
+
+    // BOSS AI
+    if (e.type === EntityType.ENEMY_BOSS) updateBoss(world, e);
+    if (e.type === EntityType.ENEMY_BOSS_PART) updateBossPart(world, e);
+
+    // TURRET AI
+    if (e.type === EntityType.ENEMY_TURRET) updateTurret(world, e);
+    if (e.type === EntityType.WEAPON_SENSOR) updateSensor(e);
+
+    // TANK AI
+    if (e.type === EntityType.ENEMY_TANK) updateTank(world, e);
+    if (e.type === EntityType.BULLET_ROCKET) steerRocket(world, e);
+
+    // FLYING CAPSULE
+    if (e.type === EntityType.ENEMY_FLYING) {
+        e.frameTimer = (e.frameTimer || 0) + 1;
+        e.pos.x += e.vel.x;
+        e.pos.y = (e.initialY ?? e.pos.y) + Math.sin((e.frameTimer / FLYER_PERIOD) * Math.PI * 2) * (e.amplitude || 0);
+    }
+
+    // SNIPER AI
+    if (e.type === EntityType.ENEMY_SNIPER) {
+        const player = targetPlayer(world, e);
+        if (Math.abs(e.pos.x - player.pos.x) < 500 && player.active) {
+            e.facing = player.pos.x > e.pos.x ? 1 : -1;
+            if (world.frame % reloadTicks(world, 120) === 0) {
+                // Aim
+                const dx = player.pos.x - e.pos.x;
+                const dy = player.pos.y - e.pos.y;
+                const angle = Math.atan2(dy, dx);
+                world.entities.push({
+                   id: `sbul-${world.nextId++}`,
+                   type: EntityType.BULLET_ENEMY,
+                   pos: { x: e.pos.x + (e.facing*10), y: e.pos.y + 10 },
+                   vel: { x: Math.cos(angle) * enemyBulletSpeed(world, 12), y: Math.sin(angle) * enemyBulletSpeed(world, 12) }, // Fast sniper shot
+                   size: { x: 4, y: 4 },
+                   color: '#ff0000',
+                   health: 1, active: true, facing: e.facing
+                });
+            }
+        }
+    }
+
+    // Physics
+    if (e.type === EntityType.ENEMY_RUNNER || e.type === EntityType.PARTICLE || e.type === EntityType.ENEMY_TANK) {
+      e.vel.y += GRAVITY;
+      e.pos.x += e.vel.x;
+      e.pos.y += e.vel.y;
+    } else if (e.type === EntityType.BULLET_PLAYER || e.type === EntityType.BULLET_ENEMY || e.type === EntityType.BULLET_ROCKET) {
+      if (e.state === 'shell') e.vel.y += GRAVITY;
+      e.pos.x += e.vel.x;
+      e.pos.y += e.vel.y;
+      if (e.spin !== undefined) corkscrewStep(e);
+      // Beams grow out of the gun until they reach full length
+      if (e.beamLength !== undefined) e.beamLength = Math.min(e.size.x, e.beamLength + Math.hypot(e.vel.x, e.vel.y));
+    }
+
+    // Released capsules fall; floating ones drift in place
+    if (e.type === EntityType.POWERUP_CAPSULE && e.state === 'dropped') {
+      if (!e.grounded) {
+        e.vel.y += GRAVITY;
+        e.pos.x += e.vel.x;
+        e.pos.y += e.vel.y;
+      }
+    } else if (e.type === EntityType.POWERUP_CAPSULE) {
+      e.pos.x += Math.sin(world.frame / 15) * 2;
+      e.pos.y += Math.cos(world.frame / 15) * 0.5;
+    }
+
+    if (e.type === EntityType.PARTICLE) {
+        e.health--;
+        if (e.health <= 0) e.active = false;
+    }
+  });
+
+  // --- Collisions ---
+  world.players.forEach(player => {
+      if (player.active && (player.rocketTimer || 0) <= 0) {
+          player.grounded = false;
+          checkPlatformCollisions(player, world.entities);
+      }
+  });
+
+  world.entities.forEach(e => {
+    if (e.type === EntityType.ENEMY_RUNNER || e.type === EntityType.ENEMY_TANK) {
+      e.grounded = false;
+      checkPlatformCollisions(e, world.entities);
+      if (e.pos.y > CANVAS_HEIGHT + 100) e.active = false;
+    }
+
+    // Released capsules come to rest on the first platform they land on
+    if (e.type === EntityType.POWERUP_CAPSULE && e.state === 'dropped' && !e.grounded) {
+      checkPlatformCollisions(e, world.entities);
+      if (e.grounded) e.vel.x = 0;
+      if (e.pos.y > CANVAS_HEIGHT + 100) e.active = false;
+    }
+
+    // Rain bullets, shells and rockets hitting floor
+    if ((e.type === EntityType.BULLET_ENEMY && (e.dropType === WeaponType.NORMAL || e.state === 'shell')) || e.type === EntityType.BULLET_ROCKET) {
+        // Check collision with platforms
+        if (e.pos.y > CANVAS_HEIGHT) e.active = false;
+        else {
+            world.entities.forEach(other => {
+               if (other.type === EntityType.PLATFORM || other.type === EntityType.BRIDGE) {
+                   if (checkRectOverlap(e, other)) {
+                       e.active = false;
+                       spawnExplosion(world, e.pos, false);
+                   }
+               }
+            });
+        }
+    }
+  });
+
+  world.entities.forEach(e => {
+     if (!e.active) return;
+
+     // Player Bullets
+     if (e.type === EntityType.BULLET_PLAYER) {
+       const owner = world.players.find(p => p.id === e.ownerId) ?? world.players[0];
+       world.entities.forEach(target => {
+          if (!target.active || !e.active) return;
+          const isEnemy = target.type === EntityType.ENEMY_RUNNER || target.type === EntityType.ENEMY_TURRET || target.type === EntityType.ENEMY_FLYING || target.type === EntityType.ENEMY_TANK || target.type === EntityType.ENEMY_BOSS || target.type === EntityType.ENEMY_BOSS_PART || target.type === EntityType.ENEMY_SNIPER || target.type === EntityType.BULLET_ROCKET;
+          // Capsules on the ground are walked over, not shot
+          const isPowerup = target.type === EntityType.POWERUP_CAPSULE && target.state !== 'dropped';
+          const isMine = target.type === EntityType.ENEMY_MINE;
+          const isSensor = target.type === EntityType.WEAPON_SENSOR;
+
+          if (isEnemy || isPowerup || isMine || isSensor) {
+            if (shotHits(e, target)) {
+              // Closed sensors are armored
+              if (isSensor && target.state !== 'open') {
+                e.active = false;
+                return;
+              }
+              // Closed or waking turrets are armored; buried ones are out of reach
+              if (target.type === EntityType.ENEMY_TURRET && target.state !== 'active') {
+                if (target.state !== 'buried') e.active = false;
+                return;
+              }
+              // Parts sit in front of the core and take the shot instead
+              if (target.type === EntityType.ENEMY_BOSS && partsOf(world, target).some(p => p.active && shotHits(e, p))) return;
+              // Armored boss, or its parts between phases: shots spark off
+              const armored = target.type === EntityType.ENEMY_BOSS
+                ? !isBossVulnerable(target)
+                : target.type === EntityType.ENEMY_BOSS_PART && parentOf(world, target)?.state === 'transition';
+              if (armored) {
+                e.active = false;
+                world.sounds.push({ type: 'bossHit', armored: true });
+                world.entities.push({
+                    id: `hit-${world.nextId++}`, type: EntityType.PARTICLE, pos: { ...e.pos },
+                    vel: { x: -1 - random(world.rng)*2, y: random(world.rng)*2-1 }, size: { x: 2, y: 2 }, color: '#888',
+                    health: 5, active: true, facing: 1
+                });
+                return;
+              }
+              if (!e.piercing) e.active = false;
+              target.health--;
+              if (target.type === EntityType.ENEMY_BOSS) checkBossPhase(target);
+
+              if (target.health <= 0) {
+                 destroyTarget(world, target, owner);
+                 if (isPowerup) collectCapsule(world, owner, target);
+              } else if (target.type === EntityType.ENEMY_BOSS || target.type === EntityType.ENEMY_BOSS_PART) {
+                  world.sounds.push({ type: 'bossHit', armored: false });
+                  world.entities.push({
+                      id: `hit-${world.nextId++}`, type: EntityType.PARTICLE, pos: { ...e.pos },
+                      vel: { x: random(world.rng)*2-1, y: random(world.rng)*2-1 }, size: { x: 2, y: 2 }, color: '#fff',
+                      health: 5, active: true, facing: 1
+                  });
+              }
+            }
+          }
+       });
+     }
+
+     // Player Collisions with Enemies
+     world.players.forEach(player => {
+         if (!player.active || !e.active) return;
+         const isLethal =
+             e.type === EntityType.ENEMY_RUNNER ||
+             e.type === EntityType.BULLET_ENEMY ||
+             e.type === EntityType.BULLET_ROCKET ||
+             e.type === EntityType.ENEMY_FLYING ||
+             e.type === EntityType.ENEMY_TANK ||
+             e.type === EntityType.ENEMY_BOSS ||
+             e.type === EntityType.ENEMY_BOSS_PART ||
+             e.type === EntityType.ENEMY_SNIPER ||
+             e.type === EntityType.ENEMY_MINE;
+
+         if (isLethal) {
+            if (checkRectOverlap(e, player)) {
+               if ((player.invincibility || 0) <= 0 && (player.barrier || 0) <= 0) {
+                   handlePlayerDeath(world, player);
+               }
+               if (e.type === EntityType.ENEMY_MINE) {
+                   e.active = false;
+                   spawnExplosion(world, e.pos, true);
+               }
+            }
+         }
+         if (e.type === EntityType.POWERUP_CAPSULE && e.state === 'dropped' && checkRectOverlap(e, player)) {
+             e.active = false;
+             collectCapsule(world, player, e);
+         }
+         if (player.pos.y > CANVAS_HEIGHT) {
+             handlePlayerDeath(world, player);
+         }
+     });
+  });
+
+  // The leader pulls the camera along, but never so far that the player
+  // behind drops off the left edge. In co-op both players are kept on screen.
+  const alive = world.players.filter(p => p.active);
+  if (alive.length > 0) {
+      const lead = Math.max(...alive.map(p => p.pos.x));
+      const trail = Math.min(...alive.map(p => p.pos.x));
+      const targetX = Math.min(lead - CANVAS_WIDTH / 3, trail - CAMERA_TRAIL_MARGIN);
+      if (targetX > world.camera.x) {
+        world.camera.x = targetX;
+      }
+  }
+  const bossWall = world.entities.find(e => e.id === 'boss-wall');
+  if (bossWall && world.camera.x > bossWall.pos.x - CANVAS_WIDTH + 50) {
+      world.camera.x = bossWall.pos.x - CANVAS_WIDTH + 50;
+  }
+  if (world.players.length > 1) {
+      alive.forEach(p => {
+          p.pos.x = Math.max(world.camera.x, Math.min(world.camera.x + CANVAS_WIDTH - p.size.x, p.pos.x));
+      });
+  }
+
+  world.entities = world.entities.filter(e => {
+      // Destroyed boss parts stay so the boss knows what it has lost
+      if (e.type === EntityType.PLATFORM || e.type === EntityType.BRIDGE || e.type === EntityType.WATER || e.type === EntityType.ENEMY_BOSS || e.type === EntityType.ENEMY_BOSS_PART || e.id === 'boss-wall') return true;
+      const margin = 500;
+      const cameraLeft = world.camera.x - margin;
+      const cameraRight = world.camera.x + CANVAS_WIDTH + margin;
+      if (!e.active || e.pos.x <= cameraLeft) return false;
+      // Level-placed enemies and pickups ahead of the camera wait for the player
+      const transient = e.type === EntityType.BULLET_PLAYER || e.type === EntityType.BULLET_ENEMY || e.type === EntityType.BULLET_ROCKET || e.type === EntityType.PARTICLE || e.type === EntityType.ENEMY_FLYING;
+      if (transient && e.type !== EntityType.ENEMY_FLYING && hasFlownOff(world, e)) return false;
+      return !transient || e.pos.x < cameraRight;
+  });
+
+  world.prevInputs = inputs.map(i => ({ ...i }));
+};
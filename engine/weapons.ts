@@ -0,0 +1,118 @@
+import { GameObject, ItemType, Vector2, WeaponType } from '../types';
+import { BULLET_SPEED, COLORS, SIZES } from '../constants';
+
+// Player weapons as data. The shooting code only reads these definitions, so
+// a new weapon is a new WeaponType plus an entry here (and a shot sound in
+// components/audio.ts).
+
+// How one trigger pull turns into projectiles. A single shot follows the aim
+// direction; a fan is aimed by angle, one projectile per offset (radians).
+// `jitter` adds a random vertical wobble of up to half its value either way.
+export interface FirePattern {
+  angles: number[];
+  jitter: number;
+}
+
+// 'corkscrew' projectiles loop around their line of flight (see corkscrewStep).
+// A 'beam' is a line segment that grows out of the gun up to `size.x` long and
+// hits everything along it; firing again cancels the last one.
+export type Motion = 'straight' | 'corkscrew' | 'beam';
+
+export interface WeaponDef {
+  name: string;       // Results and high score screens
+  letter: string;     // Capsules, pickup popups and the HUD ('' = none)
+  pattern: FirePattern;
+  motion: Motion;
+  cooldown: number;   // Ticks between trigger pulls
+  speed: number;      // Projectile speed
+  size: Vector2;      // Projectile size; beams are length x thickness
+  color: string;
+  piercing: boolean;  // Passes through what it hits
+  maxBullets: number; // Most of one player's projectiles on screen; a pull that would go over is ignored
+}
+
+const SINGLE: FirePattern = { angles: [0], jitter: 0 };
+
+export const WEAPONS: Record<WeaponType, WeaponDef> = {
+  [WeaponType.NORMAL]: {
+    name: 'NORMAL', letter: '', pattern: SINGLE, motion: 'straight', cooldown: 9, speed: BULLET_SPEED,
+    size: SIZES.BULLET, color: COLORS.BULLET_PLAYER, piercing: false, maxBullets: 6
+  },
+  [WeaponType.SPREAD]: {
+    name: 'SPREAD', letter: 'S', pattern: { angles: [0, -0.25, -0.12, 0.12, 0.25], jitter: 0 }, motion: 'straight', cooldown: 12, speed: BULLET_SPEED,
+    size: SIZES.SPREAD_BULLET, color: COLORS.BULLET_PLAYER, piercing: false, maxBullets: 20
+  },
+  [WeaponType.LASER]: {
+    name: 'LASER', letter: 'L', pattern: SINGLE, motion: 'beam', cooldown: 15, speed: BULLET_SPEED * 1.5,
+    size: SIZES.LASER_BEAM, color: COLORS.BULLET_LASER, piercing: true, maxBullets: 1
+  },
+  [WeaponType.MACHINE_GUN]: {
+    name: 'MACHINE GUN', letter: 'M', pattern: { angles: [0], jitter: 1.5 }, motion: 'straight', cooldown: 4, speed: BULLET_SPEED,
+    size: SIZES.BULLET, color: COLORS.BULLET_MG, piercing: false, maxBullets: 12
+  },
+  // C for corkscrew; F is the Falcon's
+  [WeaponType.FIRE]: {
+    name: 'FIRE', letter: 'C', pattern: SINGLE, motion: 'corkscrew', cooldown: 14, speed: BULLET_SPEED * 0.5,
+    size: SIZES.FIRE_BULLET, color: COLORS.BULLET_FIRE, piercing: false, maxBullets: 4
+  }
+};
+
+export const weaponOf = (type: WeaponType | undefined): WeaponDef => WEAPONS[type ?? WeaponType.NORMAL];
+
+// Corkscrew loops: radius in pixels and turn per tick in radians. The loop
+// outruns the forward speed, so the fireball swings back on every turn.
+const CORKSCREW_RADIUS = 14;
+const CORKSCREW_TURN = 0.5;
+
+// Offset from the straight line of flight after `t` ticks, for a projectile
+// flying along the unit vector (dx, dy).
+const corkscrewOffset = (t: number, dx: number, dy: number): Vector2 => {
+  const along = Math.sin(t * CORKSCREW_TURN) * CORKSCREW_RADIUS;
+  const across = (1 - Math.cos(t * CORKSCREW_TURN)) * CORKSCREW_RADIUS;
+  return { x: dx * along - dy * across, y: dy * along + dx * across };
+};
+
+// Moves a corkscrew projectile one tick further along its spiral, on top of
+// its normal velocity.
+export const corkscrewStep = (e: GameObject) => {
+  const t = e.spin || 0;
+  const speed = Math.hypot(e.vel.x, e.vel.y) || 1;
+  const dx = e.vel.x / speed, dy = e.vel.y / speed;
+  const from = corkscrewOffset(t, dx, dy), to = corkscrewOffset(t + 1, dx, dy);
+  e.pos.x += to.x - from.x;
+  e.pos.y += to.y - from.y;
+  e.spin = t + 1;
+};
+
+// --- Items ---
+
+export interface ItemDef {
+  name: string;
+  letter: string;
+}
+
+export const ITEMS: Record<ItemType, ItemDef> = {
+  [ItemType.RAPID]: { name: 'RAPID BULLETS', letter: 'R' },
+  [ItemType.BARRIER]: { name: 'BARRIER', letter: 'B' },
+  [ItemType.FALCON]: { name: 'FALCON', letter: 'F' }
+};
+
+export const RAPID_STEP = 0.25;   // Projectile speed bonus per Rapid Bullets stack, as a fraction
+export const MAX_RAPID = 2;
+export const BARRIER_TICKS = 600; // 10 seconds
+
+// Levels name a capsule's contents by weapon or item name, e.g. 'SPREAD' or 'BARRIER'.
+// The normal gun has no letter to show, so it never comes in a capsule.
+export type PickupName = Exclude<keyof typeof WeaponType, 'NORMAL'> | keyof typeof ItemType;
+const enumNames = (e: object) => Object.keys(e).filter(k => isNaN(Number(k)));
+export const PICKUP_NAMES = [...enumNames(WeaponType).filter(k => k !== 'NORMAL'), ...enumNames(ItemType)];
+
+// Capsule fields for the named contents.
+export const pickupContents = (name: PickupName): Pick<GameObject, 'dropType' | 'item'> =>
+  name in ItemType
+    ? { item: ItemType[name as keyof typeof ItemType] }
+    : { dropType: WeaponType[name as keyof typeof WeaponType] };
+
+// Letter on a capsule. Capsules without contents hold the spread gun.
+export const pickupLetter = (capsule: GameObject): string =>
+  capsule.item !== undefined ? ITEMS[capsule.item].letter : weaponOf(capsule.dropType ?? WeaponType.SPREAD).letter;
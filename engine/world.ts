@@ -0,0 +1,157 @@
+import { EntityType, GameObject, GameState, InputState, Vector2, WeaponType } from '../types';
+import { COLORS, SIZES } from '../constants';
+import { LevelDefinition, LevelEvent, LevelTheme, SpawnRule } from './level';
+import { CampaignState, campaignStages, createCampaign, enterStage } from './campaign';
+import { Rng, createRng, randomSeed } from './rng';
+
+// Sound cues raised during a tick. The simulation never makes noise itself;
+// the browser plays these after each step (see components/audio.ts).
+export type SoundCue =
+  | { type: 'shot'; weapon: WeaponType }
+  | { type: 'explosion'; big: boolean }
+  | { type: 'powerup' }
+  | { type: 'death' }
+  | { type: 'extraLife' }
+  | { type: 'thrust' }
+  | { type: 'bomb' }
+  | { type: 'bossHit'; armored: boolean };
+
+// Enemy fire tuning, chosen before a run and fixed for its whole length.
+export type Difficulty = 'easy' | 'normal' | 'hard';
+export const DIFFICULTIES: Difficulty[] = ['easy', 'normal', 'hard'];
+
+// Super meter. Kills fill it, chained kills fill it faster, and it also
+// recharges on its own at a speed chosen before a run. Rocket mode and the
+// alt-fire bomb spend it.
+export const SUPER_MAX = 100;
+export type SuperRecharge = 'off' | 'slow' | 'normal' | 'fast';
+export const SUPER_RECHARGES: SuperRecharge[] = ['off', 'slow', 'normal', 'fast'];
+export const SUPER_RECHARGE_TICKS: Record<SuperRecharge, number> = { off: 0, slow: 60, normal: 30, fast: 12 }; // Per point; 0 = none
+
+// How many lives a run gets and how it can go on once everybody is out.
+// Lives count the spares ("REST"), not the one in play.
+export interface LivesRule {
+  startLives: number;
+  extraLifeAt: number;    // Score of the first extra life (0 = none)
+  extraLifeEvery: number; // Score between later ones (0 = only the first)
+  continues: number;      // Per run; -1 = unlimited
+  continueLives: number;  // Lives each player gets back on a continue
+  continueTicks: number;  // Countdown to take a continue (0 = taken at once)
+}
+
+// 'konami' is the title screen cheat. 'endless' is how every run used to
+// work; editor test runs use it.
+export type LivesRuleId = 'arcade' | 'konami' | 'endless';
+export const LIVES_RULES: Record<LivesRuleId, LivesRule> = {
+  arcade: { startLives: 2, extraLifeAt: 20000, extraLifeEvery: 70000, continues: 3, continueLives: 2, continueTicks: 600 },
+  konami: { startLives: 30, extraLifeAt: 20000, extraLifeEvery: 70000, continues: 3, continueLives: 30, continueTicks: 600 },
+  endless: { startLives: 30, extraLifeAt: 0, extraLifeEvery: 0, continues: -1, continueLives: 2, continueTicks: 0 }
+};
+export const LIVES_RULE_IDS = Object.keys(LIVES_RULES) as LivesRuleId[];
+
+// The complete, framework-free game state. Everything the rules need lives
+// here so a World can be stepped in Node without a browser or a canvas.
+export interface World {
+  frame: number;
+  campaign: CampaignState;
+  levelId: string;       // Current stage
+  events: LevelEvent[];  // Scripted level events (bullet rain, ...)
+  spawns: SpawnRule[];   // Off-screen enemy wave rules
+  theme: LevelTheme;
+  players: GameObject[];  // Player 1 first; co-op runs have two
+  entities: GameObject[];
+  camera: Vector2;
+  prevCamera: Vector2; // Camera at the previous tick, for render interpolation
+  state: GameState;      // Score and lives here are the team totals
+  prevInputs: InputState[]; // Each player's input of the last step, used for edge detection
+  seed: number;          // Seed the run was started with
+  difficulty: Difficulty;
+  superRecharge: SuperRecharge;
+  livesRule: LivesRuleId;
+  continuesLeft: number; // -1 = unlimited
+  continueTimer: number; // Ticks left to take a continue; 0 unless everybody is out
+  rng: Rng;              // Gameplay randomness; never use Math.random() in the simulation
+  nextId: number;        // Counter for deterministic entity ids
+  sounds: SoundCue[];    // Cues raised by the last step
+}
+
+export const createInput = (): InputState => ({
+  left: false, right: false, up: false, down: false, jump: false, shoot: false, altFire: false, rocket: false
+});
+
+export const MAX_PLAYERS = 2;
+
+// Player 1 is 'player' in blue pants, player 2 is 'player2' in red.
+export const createPlayer = (index: number = 0, lives: number = LIVES_RULES.arcade.startLives): GameObject => ({
+  id: index === 0 ? 'player' : `player${index + 1}`,
+  type: EntityType.PLAYER,
+  pos: { x: 100 - index * 40, y: 100 },
+  vel: { x: 0, y: 0 },
+  size: { ...SIZES.PLAYER },
+  color: index === 0 ? COLORS.PLAYER_PANTS : COLORS.PLAYER2_PANTS,
+  health: 1,
+  active: true,
+  facing: 1,
+  grounded: false,
+  cooldown: 0,
+  invincibility: 0,
+  jumpCount: 0,
+  state: 'idle',
+  weaponType: WeaponType.NORMAL,
+  angle: 0,
+  rocketTimer: 0,
+  superMeter: 0,
+  combo: 0,
+  comboTimer: 0,
+  lives,
+  score: 0,
+  respawnTimer: 0
+});
+
+// Starts a run through `stages` (the main campaign by default) at stage 1.
+export const createWorld = (highScore: number, seed: number = randomSeed(), stages: LevelDefinition[] = campaignStages(), playerCount: number = 1, difficulty: Difficulty = 'normal', livesRule: LivesRuleId = 'arcade', superRecharge: SuperRecharge = 'normal'): World => {
+  if (!Number.isInteger(playerCount) || playerCount < 1 || playerCount > MAX_PLAYERS) {
+    throw new Error(`A run needs 1 to ${MAX_PLAYERS} players, got ${playerCount}`);
+  }
+  const rule = LIVES_RULES[livesRule];
+  const players = Array.from({ length: playerCount }, (_, i) => createPlayer(i, rule.startLives));
+  const world: World = {
+    frame: 0,
+    campaign: createCampaign(stages),
+    levelId: '',
+    events: [],
+    spawns: [],
+    theme: { ground: COLORS.GROUND_TOP, trim: COLORS.GROUND_TRIM },
+    players,
+    entities: [],
+    camera: { x: 0, y: 0 },
+    prevCamera: { x: 0, y: 0 },
+    state: {
+      score: 0,
+      lives: rule.startLives * playerCount,
+      gameOver: false,
+      gameWon: false,
+      highScore,
+    },
+    prevInputs: players.map(() => createInput()),
+    seed,
+    difficulty,
+    superRecharge,
+    livesRule,
+    continuesLeft: rule.continues,
+    continueTimer: 0,
+    rng: createRng(seed),
+    nextId: 0,
+    sounds: []
+  };
+  enterStage(world, 0);
+  return world;
+};
+
+// Deep copy for rollback snapshots. Stage definitions never change during a
+// run, so the copy shares them instead of cloning whole levels every tick.
+export const cloneWorld = (world: World): World => {
+  const copy = structuredClone({ ...world, campaign: { ...world.campaign, stages: [] } });
+  copy.campaign.stages = world.campaign.stages;
+  return copy;
+};
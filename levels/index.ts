@@ -0,0 +1,12 @@
+import jungleRun from './jungle-run.json';
+import alienBase from './alien-base.json';
+
+// Every level file shipped with the game, keyed by file name. Files are
+// validated when first used; add new stages here.
+export const LEVEL_FILES: Record<string, unknown> = {
+  'jungle-run.json': jungleRun,
+  'alien-base.json': alienBase,
+};
+
+// Stage order of the main campaign, by level id.
+export const CAMPAIGN: string[] = ['jungle-run', 'alien-base'];
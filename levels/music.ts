@@ -0,0 +1,59 @@
+// Music tracks, referenced by id from a zone's `music` key (see README.md).
+//
+// Each channel is a loop of space-separated tokens, one per sixteenth note:
+// a note such as `A4`, `C#5` or `Bb2` starts a note, `-` holds the one before,
+// `.` is a rest and `|` is an ignored bar line. The noise channel plays drums
+// instead: `x` is a hi-hat and `o` a snare. Channels loop independently, so a
+// two-bar bass line can run under a four-bar melody.
+export interface Track {
+  tempo: number; // Quarter notes per minute
+  pulse1?: string;   // Lead
+  pulse2?: string;   // Harmony
+  triangle?: string; // Bass
+  noise?: string;    // Drums
+}
+
+export const TRACKS: Record<string, Track> = {
+  jungle: {
+    tempo: 150,
+    pulse1: `
+      A4 - - . A4 - C5 - D5 - - . E5 - - - | G5 - E5 - D5 - C5 - D5 - - - - - . . |
+      A4 - - . A4 - C5 - D5 - - . E5 - G5 - | A5 - - - G5 - E5 - D5 - E5 - - - . .`,
+    pulse2: `
+      E4 - - . E4 - A4 - A4 - - . C5 - - - | D5 - C5 - B4 - A4 - B4 - - - - - . . |
+      E4 - - . E4 - A4 - A4 - - . C5 - - - | E5 - - - D5 - C5 - B4 - C5 - - - . .`,
+    triangle: `
+      A2 . A2 . A3 . A2 . G2 . G2 . G3 . G2 . | F2 . F2 . F3 . F2 . G2 . G2 . G3 . E2 .`,
+    noise: 'x . x . o . x . x . x . o . x x'
+  },
+  snowfield: {
+    tempo: 144,
+    pulse1: `
+      G4 - A#4 - D5 - - - C5 - A#4 - A4 - - - | G4 - A#4 - D5 - F5 - D#5 - - - D5 - - -`,
+    pulse2: `
+      D4 - - - F4 - - - D#4 - - - F4 - - - | D4 - - - F4 - - - G4 - - - F#4 - - -`,
+    triangle: 'G2 . G2 G3 . G2 G2 . D#2 . D#2 D#3 . D#2 F2 .',
+    noise: 'x . o . x x o . x . o . x x o x'
+  },
+  base: {
+    tempo: 132,
+    pulse1: `
+      D5 - - - F5 - - - E5 - - - C5 - - - | D5 - - - A5 - - - G#5 - - - - - - -`,
+    pulse2: `
+      . . A4 . . . A4 . . . G4 . . . G4 . | . . A4 . . . C5 . . . B4 . . . B4 .`,
+    triangle: `
+      D2 . D3 . D2 . D3 . C2 . C3 . C2 . C3 . | A#1 . A#2 . A#1 . A#2 . A1 . A2 . A1 . A2 .`,
+    noise: 'x . . . o . . . x . x . o . . .'
+  },
+  boss: {
+    tempo: 170,
+    pulse1: `
+      E5 - E5 . E5 - D#5 - E5 - G5 - F#5 - D#5 - | E5 - E5 . E5 - B4 - C5 - D5 - B4 - - -`,
+    pulse2: `
+      B4 . B4 . B4 . B4 . C5 . C5 . B4 . A#4 . | B4 . B4 . B4 . G4 . A4 . A4 . F#4 . . .`,
+    triangle: 'E2 E3 E2 E3 E2 E3 E2 E3 C2 C3 C2 C3 B1 B2 B1 B2',
+    noise: 'x . x x o . x . x . x x o . x x'
+  }
+};
+
+export const TRACK_IDS = Object.keys(TRACKS);
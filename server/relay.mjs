@@ -0,0 +1,189 @@
+// Relay for online co-op. Pairs two browsers per room and forwards their
+// messages to each other; the game logic runs entirely in the clients.
+//
+//   npm run relay              (listens on ws://localhost:8787)
+//   PORT=9000 npm run relay
+//
+// Clients connect to ws://host:port/?room=NAME. The first one in a room is
+// player 1, the second player 2. Both then get a `start` message with a shared
+// seed. A third client is turned away with `full`; when either player
+// disconnects the other gets `left` and the room is closed.
+//
+// Only the parts of the WebSocket protocol (RFC 6455) the game needs are
+// implemented, so the relay has no dependencies beyond Node itself.
+
+import { createServer } from 'node:http';
+import { createHash, randomInt } from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 8787;
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_PAYLOAD = 64 * 1024;
+
+const OP_CONTINUATION = 0x0;
+const OP_TEXT = 0x1;
+const OP_CLOSE = 0x8;
+const OP_PING = 0x9;
+const OP_PONG = 0xa;
+
+// --- Framing ---
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Splits complete frames off the front of `buffer`. Client frames are always masked.
+const decodeFrames = (buffer) => {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const fin = (buffer[offset] & 0x80) !== 0;
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    if (!masked || length > MAX_PAYLOAD) throw new Error('Bad frame');
+    if (buffer.length < cursor + 4 + length) break;
+    const mask = buffer.subarray(cursor, cursor + 4);
+    const payload = Buffer.from(buffer.subarray(cursor + 4, cursor + 4 + length));
+    for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    frames.push({ fin, opcode, payload });
+    offset = cursor + 4 + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+};
+
+// --- Peers ---
+
+const createPeer = (socket, onText, onClose) => {
+  let pending = Buffer.alloc(0);
+  let message = [];
+  let closed = false;
+
+  const peer = {
+    send: (text) => { if (!closed) socket.write(encodeFrame(OP_TEXT, Buffer.from(text))); },
+    close: () => {
+      if (closed) return;
+      socket.end(encodeFrame(OP_CLOSE, Buffer.alloc(0)));
+      finish();
+    }
+  };
+
+  const finish = () => {
+    if (closed) return;
+    closed = true;
+    onClose(peer);
+  };
+
+  socket.on('data', (chunk) => {
+    let decoded;
+    try {
+      decoded = decodeFrames(Buffer.concat([pending, chunk]));
+    } catch {
+      socket.destroy();
+      finish();
+      return;
+    }
+    pending = decoded.rest;
+    for (const frame of decoded.frames) {
+      if (frame.opcode === OP_CLOSE) { peer.close(); return; }
+      if (frame.opcode === OP_PING) { socket.write(encodeFrame(OP_PONG, frame.payload)); continue; }
+      if (frame.opcode !== OP_TEXT && frame.opcode !== OP_CONTINUATION) continue;
+      message.push(frame.payload);
+      if (frame.fin) {
+        onText(peer, Buffer.concat(message).toString('utf8'));
+        message = [];
+      }
+    }
+  });
+  socket.on('close', finish);
+  socket.on('error', finish);
+  return peer;
+};
+
+// --- Rooms ---
+
+const rooms = new Map(); // room name -> peers, player 1 first
+
+const closeRoom = (name, leaver) => {
+  const peers = rooms.get(name);
+  if (!peers) return;
+  rooms.delete(name);
+  peers.forEach(p => {
+    if (p === leaver) return;
+    p.send(JSON.stringify({ type: 'left' }));
+    p.close();
+  });
+};
+
+const join = (socket, name) => {
+  const peers = rooms.get(name) ?? [];
+  const peer = createPeer(
+    socket,
+    (from, text) => peers.forEach(p => { if (p !== from) p.send(text); }),
+    (leaver) => { if (peers.includes(leaver) && rooms.get(name) === peers) closeRoom(name, leaver); }
+  );
+  if (peers.length >= 2) {
+    peer.send(JSON.stringify({ type: 'full' }));
+    peer.close();
+    return;
+  }
+  peers.push(peer);
+  rooms.set(name, peers);
+  if (peers.length === 1) {
+    peer.send(JSON.stringify({ type: 'waiting' }));
+    return;
+  }
+  const seed = randomInt(0, 2 ** 32);
+  peers.forEach((p, player) => p.send(JSON.stringify({ type: 'start', seed, player })));
+  console.log(`room "${name}": started with seed ${seed}`);
+};
+
+const server = createServer((req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('Contra relay: connect with a WebSocket\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.destroy();
+    return;
+  }
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '', ''
+  ].join('\r\n'));
+  socket.setNoDelay(true);
+  const room = new URL(req.url ?? '/', 'http://relay').searchParams.get('room') || 'default';
+  join(socket, room);
+});
+
+server.listen(PORT, () => console.log(`Contra relay listening on ws://localhost:${PORT}`));
@@ -15,14 +15,24 @@ export enum EntityType {
   PLATFORM,
   WATER,
   POWERUP_CAPSULE,
-  BRIDGE
+  BRIDGE,
+  ENEMY_BOSS_PART,
+  WEAPON_SENSOR
 }
 
 export enum WeaponType {
   NORMAL,
   SPREAD,
   LASER,
-  MACHINE_GUN
+  MACHINE_GUN,
+  FIRE
+}
+
+// Capsule contents that aren't weapons
+export enum ItemType {
+  RAPID,   // Faster projectiles; stacks
+  BARRIER, // Timed invincibility
+  FALCON   // Destroys every enemy on screen
 }
 
 export interface Vector2 {
@@ -36,6 +46,7 @@ export interface GameObject {
   pos: Vector2;
   vel: Vector2;
   size: Vector2;
+  prevPos?: Vector2; // Position at the previous tick, for render interpolation
   color: string;
   health: number;
   active: boolean;
@@ -51,19 +62,48 @@ export interface GameObject {
   jumpCount?: number; // Track jumps
   weaponType?: WeaponType;
   dropType?: WeaponType; // For powerups
+  item?: ItemType; // Powerups holding an item instead of a weapon
   piercing?: boolean; // For lasers
+  beamLength?: number; // Laser beams: length trailing behind `pos` (the head) along `angle`; size.x is the full length
+  spin?: number; // Corkscrew projectiles: ticks along the spiral
+  rapid?: number; // Players: Rapid Bullets stacks
+  barrier?: number; // Players: ticks of Barrier left
   text?: string; // For floating text particles
   isBridge?: boolean; 
   isTurret?: boolean;
   angle?: number; // For turret aiming or rotating jump
+  aimSteps?: number; // Turrets: number of discrete aim directions
+  triggerRange?: number; // Turrets: player distance that wakes a buried/sealed turret
+  burst?: number; // Turrets: shots fired in the current burst
+  reload?: number; // Tanks: ticks until the next rocket
+  homing?: boolean; // Tanks fire homing rockets; rockets steer toward the player
   initialY?: number; // For flying enemies sine wave
+  amplitude?: number; // Height of the sine wave around initialY
   
   // Abilities
   rocketTimer?: number; // Timer for Rocket Mode (X button)
+  superMeter?: number; // Players: 0 to SUPER_MAX, spent by rocket mode and the bomb
+  combo?: number; // Players: kills in the current chain
+  comboTimer?: number; // Players: ticks left to extend the chain
+
+  // Players: each one keeps its own lives, score and respawn
+  lives?: number;
+  score?: number;
+  respawnTimer?: number; // Ticks until a dead player comes back (0 = none pending)
+  ownerId?: string; // Player bullets: the player who fired them
 
   // Boss props
   bossPhase?: number;
   maxHealth?: number;
+  attackIndex?: number; // Position in the current phase's attack cycle
+  aimY?: number; // Floor height of a telegraphed ground sweep
+  shielded?: boolean; // Core is covered while any shield part stands
+  disarmed?: boolean; // Every cannon part is destroyed
+
+  // Linked parts (boss cannons and shields) ride on their parent
+  parentId?: string;
+  part?: 'cannon' | 'shield';
+  offset?: Vector2; // Position relative to the parent
 }
 
 export interface GameState {